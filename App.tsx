@@ -1,19 +1,43 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { CertViewer } from './components/CertViewer';
 import { SftpModal } from './components/SftpModal';
 import { ChainBuilder } from './components/ChainBuilder';
 import { PackageVerifier } from './components/PackageVerifier';
 import { CertRequester } from './components/CertRequester';
-import { parseCertificate, checkKeyPair, fetchCertificate, createTarball, verifyParent, isSelfSigned, untar, splitCaBundle } from './services/cryptoService';
-import { analyzeCertificate } from './services/geminiService';
-import { CertificateInfo, AppStep, SftpCredentials, ChainItem } from './types';
-import { ArrowRight, Package, UploadCloud, FileKey, Loader2, ShieldCheck, Download, Layers, ChevronRight, RotateCcw, PenLine, Hammer, FileSearch, Sun, Moon, Monitor, Globe } from 'lucide-react';
+import { PassphrasePrompt } from './components/PassphrasePrompt';
+import { OutputProfileSelector } from './components/OutputProfileSelector';
+import { WingScriptPanel } from './components/WingScriptPanel';
+import { DistributionTargets } from './components/DistributionTargets';
+import { SigningKeyPanel, SigningKey } from './components/SigningKeyPanel';
+import { TrustStoreManager } from './components/TrustStoreManager';
+import { CaCacheBrowser } from './components/CaCacheBrowser';
+import { RevocationPanel } from './components/RevocationPanel';
+import { FetchRelayPanel } from './components/FetchRelayPanel';
+import { HostCoveragePanel } from './components/HostCoveragePanel';
+import { LintPanel } from './components/LintPanel';
+import { AnalysisProviderPanel } from './components/AnalysisProviderPanel';
+import { parseCertificate, checkKeyPair, fetchIssuerCertificates, createTarball, isSelfSigned, untar, splitCaBundle, orderChain, parsePemBundle, parsePkcs12, BundleContents, isEncryptedKey, describeKeyEncryption, decryptPrivateKey, encryptPrivateKey, isGzip, gzip, gunzip, KeyEncryptionInfo, KeyProtection, sha256Hex, certificateSha256, ExtractedFile, TarError, PassphraseError, DEFAULT_TAR_LIMITS } from './services/cryptoService';
+import { analyzeCertificate, buildAnalysisContext, filenameFromCommonName, loadAnalysisSettings, saveAnalysisSettings, analysisCacheKey, cachedAnalysis, cacheAnalysis, forgetAnalysis } from './services/analysisService';
+import { validatePath } from './services/pathValidationService';
+import { loadTrustStore, saveTrustStore, completeFromStore, findTrustAnchor } from './services/trustStoreService';
+import { cacheCertificates, findCachedIssuer } from './services/caCacheService';
+import { CrlInfo, parseCrl, checkRevocation } from './services/revocationService';
+import { loadFetchSettings, saveFetchSettings } from './services/fetchRelayService';
+import { parseHostList, checkHostCoverage } from './services/hostnameService';
+import { lintChain, loadRulePack, saveRulePack } from './services/lintService';
+import { loadTargets, saveTargets, uploadPackage } from './services/distributionService';
+import { OUTPUT_PROFILES, layoutPackage, buildPackageFiles, DEFAULT_WING_SCRIPT_SETTINGS, buildWingScript, wingTrustpointName, inspectPackage, profileChain, addManifest, verifyManifest, loadTrustedSigners, saveTrustedSigners, MANIFEST_FILE, SIGNATURE_FILE } from './services/packageService';
+import { CertificateInfo, AppStep, DistributionResult, DistributionTarget, ChainItem, SniffedInput, OutputProfile, WingScriptSettings, ValidationFinding, TrustedSigner, TrustStoreEntry, RevocationStatus, FetchRelaySettings, LintRulePack, AnalysisOutcome, AnalysisSettings } from './types';
+import { ArrowRight, Package, UploadCloud, FileKey, Loader2, ShieldCheck, Download, Layers, ChevronRight, RotateCcw, PenLine, Lock, Hammer, FileSearch, Sun, Moon, Monitor, Globe, Anchor, RefreshCw, X } from 'lucide-react';
 import { useLanguage } from './contexts/LanguageContext';
 import { useTheme } from './contexts/ThemeContext';
 
-type AppMode = 'builder' | 'validator' | 'requester';
+type AppMode = 'builder' | 'validator' | 'requester' | 'truststore';
+
+// Quiet time after the last leaf, chain or language change before the model is asked
+const ANALYSIS_DEBOUNCE_MS = 800;
 
 export default function App() {
   const { t, language, setLanguage } = useLanguage();
@@ -28,21 +52,138 @@ export default function App() {
   
   // Chain State
   const [chainItems, setChainItems] = useState<ChainItem[]>([]);
+  // CAs bundled with the leaf (e.g. from a PKCS#12), consumed once the leaf is parsed
+  const bundledCasRef = useRef<string[]>([]);
+  // PKCS#12 dropped anywhere, waiting for its password
+  const [pendingPkcs12, setPendingPkcs12] = useState<SniffedInput | null>(null);
+  // Encrypted private key waiting for its passphrase (or that could not be read), and how the loaded key was protected
+  const [pendingKey, setPendingKey] = useState<{ name: string; pem: string; encryption?: KeyEncryptionInfo; error?: string } | null>(null);
+  const [keyEncryption, setKeyEncryption] = useState<KeyEncryptionInfo | null>(null);
   
   const [keyMatched, setKeyMatched] = useState<boolean>(false);
   
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [analysis, setAnalysis] = useState<{ assessment: string; suggestedFilename: string; readmeContent: string } | null>(null);
+  const [analysis, setAnalysis] = useState<AnalysisOutcome | null>(null);
   const [customFilename, setCustomFilename] = useState<string>('');
+  // Set once the user types a package name; analyses then leave it alone
+  const filenameEditedRef = useRef(false);
+  // Bumped to re-run the analysis for an unchanged leaf, chain and language
+  const [analysisRun, setAnalysisRun] = useState(0);
+
+  // AI provider; its API key stays in memory for the session
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(loadAnalysisSettings);
+  const [analysisApiKey, setAnalysisApiKey] = useState('');
+
+  useEffect(() => {
+    saveAnalysisSettings(analysisSettings);
+  }, [analysisSettings]);
+
+  // Package layout, remembered across sessions with any overrides
+  const [outputProfile, setOutputProfile] = useState<OutputProfile>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem('outputProfile') || 'null');
+      if (saved && OUTPUT_PROFILES.some(p => p.id === saved.id)) return saved;
+    } catch (e) {
+      // fall back to the default profile
+    }
+    return OUTPUT_PROFILES[0];
+  });
+
+  useEffect(() => {
+    localStorage.setItem('outputProfile', JSON.stringify(outputProfile));
+  }, [outputProfile]);
+
+  // Transfer URL and services for the generated WiNG CLI script
+  const [wingSettings, setWingSettings] = useState<WingScriptSettings>(() => {
+    try {
+      return { ...DEFAULT_WING_SCRIPT_SETTINGS, ...JSON.parse(localStorage.getItem('wingScript') || '{}') };
+    } catch (e) {
+      return DEFAULT_WING_SCRIPT_SETTINGS;
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem('wingScript', JSON.stringify(wingSettings));
+  }, [wingSettings]);
+
+  // Controller hostnames / IPs the trustpoint serves; the same controllers usually get each renewal
+  const [controllerHosts, setControllerHosts] = useState<string>(() => localStorage.getItem('controllerHosts') || '');
+
+  useEffect(() => {
+    localStorage.setItem('controllerHosts', controllerHosts);
+  }, [controllerHosts]);
+
+  // Team lint rules; findings at severity error block packaging
+  const [rulePack, setRulePack] = useState<LintRulePack>(loadRulePack);
+
+  useEffect(() => {
+    saveRulePack(rulePack);
+  }, [rulePack]);
+
+  // Optional passphrase for the packaged .prv
+  const [protectKey, setProtectKey] = useState(false);
+  const [keyPassphrase, setKeyPassphrase] = useState('');
+  const [keyPassphraseConfirm, setKeyPassphraseConfirm] = useState('');
+  const [keyProtection, setKeyProtection] = useState<KeyProtection>('legacy');
+  const [signingKey, setSigningKey] = useState<SigningKey | null>(null);
+  const [trustedSigners, setTrustedSigners] = useState<TrustedSigner[]>(loadTrustedSigners);
+  const [packageHash, setPackageHash] = useState<{ fileName: string; sha256: string } | null>(null);
+  // Opt-in wall-clock build time in the manifest; off keeps packages reproducible
+  const [recordBuildTime, setRecordBuildTime] = useState(() => localStorage.getItem('recordBuildTime') === 'true');
+
+  useEffect(() => {
+    localStorage.setItem('recordBuildTime', String(recordBuildTime));
+  }, [recordBuildTime]);
   
   const [loadingChain, setLoadingChain] = useState(false);
   
   const [uploading, setUploading] = useState(false);
-  const [sftpCreds, setSftpCreds] = useState<SftpCredentials | null>(null);
+  const [distributionResult, setDistributionResult] = useState<DistributionResult | null>(null);
   const [showSftp, setShowSftp] = useState(false);
 
+  // Saved upload targets; the password is kept only for this session's uploads
+  const [targets, setTargets] = useState<DistributionTarget[]>(loadTargets);
+  const [selectedTargetId, setSelectedTargetId] = useState<string | null>(() => targets[0]?.id || null);
+  const [targetPassword, setTargetPassword] = useState('');
+
+  useEffect(() => {
+    saveTargets(targets);
+  }, [targets]);
+
+  useEffect(() => {
+    saveTrustedSigners(trustedSigners);
+  }, [trustedSigners]);
+
+  // Roots and intermediates that anchor and complete chains
+  const [trustStore, setTrustStore] = useState<TrustStoreEntry[]>(loadTrustStore);
+
+  useEffect(() => {
+    try {
+      saveTrustStore(trustStore);
+    } catch (e) {
+      alert(t('trustStoreFull'));
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [trustStore]);
+
+  // Relay and host allowlist for AIA / OCSP / CRL downloads
+  const [fetchSettings, setFetchSettings] = useState<FetchRelaySettings>(loadFetchSettings);
+
+  useEffect(() => {
+    saveFetchSettings(fetchSettings);
+  }, [fetchSettings]);
+
+  // Uploaded CRLs are kept for the session only; results are keyed by the checked certificate's SHA-256
+  const [crls, setCrls] = useState<CrlInfo[]>([]);
+  const [onlineRevocation, setOnlineRevocation] = useState(true);
+  const [revocation, setRevocation] = useState<Record<string, RevocationStatus>>({});
+  const [checkingRevocation, setCheckingRevocation] = useState(false);
+
   // --- Validator State ---
   const [validationResult, setValidationResult] = useState<any>(null);
+  const validatorTarRef = useRef<Uint8Array | null>(null); // kept to re-run with a key passphrase
+  const validatorPassphraseRef = useRef<string | undefined>(undefined); // last one that unlocked its key
+  const [validating, setValidating] = useState(false);
   const [validatorFileName, setValidatorFileName] = useState<string>('');
 
   const handleReset = () => {
@@ -58,18 +199,30 @@ export default function App() {
     setKeyPem(null);
     setCertInfo(null);
     setChainItems([]);
+    setPendingPkcs12(null);
+    setPendingKey(null);
+    setKeyEncryption(null);
     setKeyMatched(false);
     setIsAnalyzing(false);
     setAnalysis(null);
     setCustomFilename('');
+    filenameEditedRef.current = false;
+    setProtectKey(false);
+    setKeyPassphrase('');
+    setKeyPassphraseConfirm('');
+    setKeyProtection('legacy');
     setLoadingChain(false);
-    setSftpCreds(null);
+    setDistributionResult(null);
     setShowSftp(false);
+    setRevocation({});
+    setCrls([]);
   };
 
   const resetValidator = () => {
     setValidationResult(null);
     setValidatorFileName('');
+    validatorTarRef.current = null;
+    validatorPassphraseRef.current = undefined;
   };
 
   const toggleTheme = () => {
@@ -93,15 +246,22 @@ export default function App() {
         // Prevent re-running if the cert hasn't effectively changed (by serial)
         if (info.serialNumber !== certInfo?.serialNumber) {
             setCertInfo(info);
-            // Start analysis
-            setIsAnalyzing(true);
+            // A new leaf gets a new suggested name
+            filenameEditedRef.current = false;
             
-            // Try auto-resolve
-            if (info.aiaUrl) {
-                resolveChain(info, certPem);
+            const bundledCas = bundledCasRef.current;
+            bundledCasRef.current = [];
+
+            if (bundledCas.length > 0) {
+                // Chain shipped with the leaf, order it instead of fetching
+                const items = extendChain(bundledCas.join('\n'), certPem, []) || [];
+                completeOffline(certPem, items).then(completed => {
+                    setChainItems(completed);
+                    setStep(chainReachesAnchor(completed) ? AppStep.ANALYSIS : AppStep.CHAIN_BUILD);
+                });
             } else {
-                // No AIA, go to manual chain build
-                setStep(AppStep.CHAIN_BUILD);
+                // Try auto-resolve; without AIA only the cache and trust store can help
+                resolveChain(info, certPem);
             }
         }
       } catch (e) {
@@ -118,72 +278,170 @@ export default function App() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [certPem, keyPem]);
 
-  // Re-trigger analysis if language changes
+  const lintFindings = useMemo(
+    () => certPem ? lintChain([certPem, ...chainItems.map(c => c.pem)], rulePack) : [],
+    [certPem, chainItems, rulePack]
+  );
+
+  // Changing the rule pack changes the findings in the prompt, so it gives a new key
+  const analysisKey = useMemo(
+    () => certInfo ? analysisCacheKey([certInfo.raw, ...chainItems.map(c => c.pem)], language, lintFindings, analysisSettings) : null,
+    [certInfo, chainItems, language, lintFindings, analysisSettings]
+  );
+
+  const applyAnalysisSettings = (settings: AnalysisSettings, apiKey: string) => {
+    setAnalysisSettings(settings);
+    setAnalysisApiKey(apiKey);
+    setAnalysisRun(n => n + 1);
+  };
+
+  const reanalyze = () => {
+    if (analysisKey) forgetAnalysis(analysisKey);
+    setAnalysisRun(n => n + 1);
+  };
+
+  // Run AI Analysis once the leaf, chain and language have settled; answers are cached per key
   useEffect(() => {
-    if (certInfo) {
-        setIsAnalyzing(true);
+    if (!certInfo || !analysisKey) return;
+
+    const showResult = (result: AnalysisOutcome) => {
+      setAnalysis(result);
+      if (!filenameEditedRef.current) {
+        setCustomFilename(result.analysis?.suggestedFilename || filenameFromCommonName(certInfo.commonName));
+      }
+      setIsAnalyzing(false);
+      // If we were just uploading, move to next relevant step
+      setStep(current => current === AppStep.UPLOAD
+        ? (certInfo.caIssuers.length > 0 ? AppStep.ANALYSIS : AppStep.CHAIN_BUILD)
+        : current);
+    };
+
+    const cached = cachedAnalysis(analysisKey);
+    if (cached) {
+      showResult(cached);
+      return;
     }
-  }, [language]);
 
-  // Run Gemini Analysis
-  useEffect(() => {
-    if (certInfo && isAnalyzing) {
-      analyzeCertificate(certInfo, chainItems.length + 1, language).then(result => {
-        setAnalysis(result);
-        setCustomFilename(result.suggestedFilename);
-        setIsAnalyzing(false);
-        // If we were just uploading, move to next relevant step
-        if (step === AppStep.UPLOAD) {
-            setStep(certInfo.aiaUrl ? AppStep.ANALYSIS : AppStep.CHAIN_BUILD);
-        }
+    setIsAnalyzing(true);
+    let superseded = false;
+    const timer = setTimeout(() => {
+      const context = buildAnalysisContext(certInfo, chainItems, lintFindings, language);
+      analyzeCertificate(context, analysisSettings, analysisApiKey).then(result => {
+        cacheAnalysis(analysisKey, result);
+        if (!superseded) showResult(result);
       });
-    }
+    }, ANALYSIS_DEBOUNCE_MS);
+    return () => {
+      superseded = true;
+      clearTimeout(timer);
+    };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [certInfo, chainItems.length, isAnalyzing, language]); // Re-run if chain changes to update context
+  }, [certInfo, analysisKey, analysisRun]);
 
-  const resolveChain = async (info: CertificateInfo, rootPem: string) => {
+  // Verified issuer taken from the CA cache or the trust store
+  const offlineItem = (pem: string, source: 'cache' | 'store', index: number): ChainItem => ({
+    id: `${source}-${index}`,
+    status: 'success',
+    info: parseCertificate(pem).info,
+    source,
+    pem,
+    isRoot: isSelfSigned(pem),
+    signsChild: true
+  });
+
+  // Issuers above the chain's tail taken from the trust store
+  const storeItems = (leafPem: string, chain: ChainItem[]): ChainItem[] => {
+    const pems = [leafPem, ...chain.map(c => c.pem)];
+    try {
+      return completeFromStore(pems[pems.length - 1], trustStore, pems).map((entry, i) => offlineItem(entry.pem, 'store', chain.length + i));
+    } catch (e) {
+      return [];
+    }
+  };
+
+  // The chain ends at a self-signed root or at a trust anchor from the store
+  const chainReachesAnchor = (chain: ChainItem[]) => {
+    const tail = chain[chain.length - 1];
+    if (!tail) return false;
+    if (tail.isRoot) return true;
+    const fingerprint = certificateSha256(tail.pem);
+    return trustStore.some(e => e.anchor && e.fingerprint === fingerprint);
+  };
+
+  // Extends the chain from the CA cache and the trust store, without the network. The store is
+  // tried first at each step so a trust anchor wins over whatever the cache holds.
+  const completeOffline = async (leafPem: string, chain: ChainItem[]): Promise<ChainItem[]> => {
+    const completed = [...chain];
+    while (completed.length < 8 && !chainReachesAnchor(completed)) {
+      const fromStore = storeItems(leafPem, completed);
+      if (chainReachesAnchor(fromStore)) return [...completed, ...fromStore];
+
+      const pems = [leafPem, ...completed.map(c => c.pem)];
+      let cached = null;
+      try {
+        cached = await findCachedIssuer(pems[pems.length - 1], pems.map(certificateSha256));
+      } catch (e) {
+        console.warn("CA cache unavailable:", e);
+      }
+      if (!cached) return [...completed, ...fromStore];
+      completed.push(offlineItem(cached.pem, 'cache', completed.length));
+    }
+    return completed;
+  };
+
+  const resolveChain = async (info: CertificateInfo, leafPem: string) => {
     setLoadingChain(true);
-    const newChain: ChainItem[] = [];
-    
-    let currentAia = info.aiaUrl;
-    let currentChildPem = rootPem;
+    let newChain: ChainItem[] = [];
     let depth = 0;
     const maxDepth = 5;
 
     try {
-        while (currentAia && depth < maxDepth) {
-            const parentPem = await fetchCertificate(currentAia);
-            if (parentPem === currentChildPem) break; // Cycle
-            
-            const { info: parentInfo } = parseCertificate(parentPem);
-            
-            newChain.push({
-                id: `auto-${depth}`,
-                status: 'success',
-                info: parentInfo,
-                source: 'fetched',
-                pem: parentPem,
-                isRoot: isSelfSigned(parentPem),
-                signsChild: verifyParent(currentChildPem, parentPem)
-            });
-            
-            if (newChain[newChain.length-1].isRoot) break;
+        // Cached CAs and the trust store first; AIA only for what they can't supply
+        newChain = await completeOffline(leafPem, newChain);
+
+        while (!chainReachesAnchor(newChain) && depth < maxDepth) {
+            const tail = newChain[newChain.length - 1];
+            let currentChildPem = tail ? tail.pem : leafPem;
+            const caIssuers = tail ? tail.info.caIssuers : info.caIssuers;
+            if (caIssuers.length === 0) break;
+
+            // A .p7c may carry several CAs; order them from the current child
+            const fetched = (await fetchIssuerCertificates(caIssuers, currentChildPem))
+                .filter(p => p !== currentChildPem && !newChain.some(c => c.pem === p));
+            if (fetched.length === 0) break; // Cycle
+            cacheCertificates(fetched, 'fetched').catch(e => console.warn("CA cache unavailable:", e));
+
+            for (const { pem: parentPem, signsChild } of orderChain(currentChildPem, fetched)) {
+                const { info: parentInfo } = parseCertificate(parentPem);
+                newChain.push({
+                    id: `auto-${newChain.length}`,
+                    status: 'success',
+                    info: parentInfo,
+                    source: 'fetched',
+                    pem: parentPem,
+                    isRoot: isSelfSigned(parentPem),
+                    signsChild
+                });
+                currentChildPem = parentPem;
+            }
 
-            currentChildPem = parentPem;
-            currentAia = parentInfo.aiaUrl;
+            newChain = await completeOffline(leafPem, newChain);
             depth++;
         }
         setChainItems(newChain);
-        setStep(AppStep.ANALYSIS);
+        setStep(info.caIssuers.length > 0 || chainReachesAnchor(newChain) ? AppStep.ANALYSIS : AppStep.CHAIN_BUILD);
     } catch (e) {
         console.warn("Chain resolution partial/failed:", e);
-        setStep(AppStep.CHAIN_BUILD); // Fallback to manual
+        // Offline or unreachable: keep what the cache and trust store supplied
+        setChainItems(newChain);
+        setStep(chainReachesAnchor(newChain) ? AppStep.ANALYSIS : AppStep.CHAIN_BUILD);
     } finally {
         setLoadingChain(false);
     }
   };
 
-  const handleAddCa = (pemContent: string) => {
+  // Orders the certificates in pemContent onto the end of baseChain; null if nothing could be added
+  const extendChain = (pemContent: string, leafPem: string, baseChain: ChainItem[]): ChainItem[] | null => {
     let pems = splitCaBundle(pemContent);
     // Fallback for single cert without strict headers or loose text
     if (pems.length === 0) {
@@ -191,10 +449,9 @@ export default function App() {
     }
 
     const newItems: ChainItem[] = [];
-    let tempChain = [...chainItems];
-    let currentTailPem = tempChain.length > 0 ? tempChain[tempChain.length - 1].pem : certPem;
-
-    if (!currentTailPem) return;
+    let tempChain = [...baseChain];
+    const currentTailPem = tempChain.length > 0 ? tempChain[tempChain.length - 1].pem : leafPem;
+    const leafFingerprint = parseCertificate(leafPem).info.fingerprint;
 
     // 1. Parse all candidates
     const candidates: { pem: string, info: CertificateInfo }[] = [];
@@ -204,8 +461,8 @@ export default function App() {
             const { info } = parseCertificate(p);
             // Duplicate check
             const existsInChain = tempChain.some(c => c.info.fingerprint === info.fingerprint);
-            const existsInNew = newItems.some(c => c.info.fingerprint === info.fingerprint);
-            const isLeaf = info.fingerprint === certInfo?.fingerprint;
+            const existsInNew = candidates.some(c => c.info.fingerprint === info.fingerprint);
+            const isLeaf = info.fingerprint === leafFingerprint;
             
             if (!existsInChain && !existsInNew && !isLeaf) {
                 candidates.push({ pem: info.raw, info });
@@ -229,90 +486,244 @@ export default function App() {
         } else {
             alert(t('noNewCerts'));
         }
-        return;
+        return null;
     }
 
-    // 2. Build chain extension greedily
-    let found = true;
-    let addedCount = 0;
+    // 2. Order greedily from the current tail; leftovers come back as broken links
+    const infoByPem = new Map(candidates.map(c => [c.pem, c.info]));
+    orderChain(currentTailPem, candidates.map(c => c.pem)).forEach(({ pem, signsChild }, i) => {
+        newItems.push({
+            id: `manual-${Date.now()}-${i}`,
+            status: 'uploaded',
+            info: infoByPem.get(pem)!,
+            source: 'uploaded',
+            pem,
+            isRoot: isSelfSigned(pem),
+            signsChild
+        });
+    });
+    cacheCertificates(newItems.map(item => item.pem), 'uploaded').catch(e => console.warn("CA cache unavailable:", e));
 
-    while (candidates.length > 0 && found) {
-        found = false;
-        // Find a cert that signs the current tail
-        const idx = candidates.findIndex(c => verifyParent(currentTailPem!, c.pem));
-        
-        if (idx !== -1) {
-            const match = candidates[idx];
-            candidates.splice(idx, 1); // remove from pool
-            
-            const newItem: ChainItem = {
-                id: `manual-${Date.now()}-${addedCount++}`,
-                status: 'uploaded',
-                info: match.info,
-                source: 'uploaded',
-                pem: match.pem,
-                isRoot: isSelfSigned(match.pem),
-                signsChild: true
-            };
-            
-            newItems.push(newItem);
-            currentTailPem = match.pem;
-            found = true;
+    return newItems;
+  };
+
+  const handleAddCa = async (pemContent: string) => {
+    if (!certPem) return;
+    const newItems = extendChain(pemContent, certPem, chainItems);
+    if (newItems) {
+        setChainItems(await completeOffline(certPem, [...chainItems, ...newItems]));
+    }
+  };
+
+  // Encrypted keys are held back until their passphrase is given
+  const acceptKey = (pem: string, name: string) => {
+    setKeyEncryption(null);
+    if (isEncryptedKey(pem)) {
+        try {
+            setPendingKey({ name, pem, encryption: describeKeyEncryption(pem) });
+        } catch (e: any) {
+            setPendingKey({ name, pem, error: e.message });
         }
+        setKeyPem(null);
+    } else {
+        setPendingKey(null);
+        setKeyPem(pem);
     }
+  };
 
-    // 3. Append remaining candidates (broken links or unordered leftovers)
-    for (const c of candidates) {
-         const signsChild = verifyParent(currentTailPem!, c.pem);
-         const newItem: ChainItem = {
-            id: `manual-${Date.now()}-${addedCount++}`,
-            status: 'uploaded',
-            info: c.info,
-            source: 'uploaded',
-            pem: c.pem,
-            isRoot: isSelfSigned(c.pem),
-            signsChild: signsChild
-        };
-        newItems.push(newItem);
-        currentTailPem = c.pem;
+  const unlockKey = (passphrase: string) => {
+    if (!pendingKey) return;
+    const plain = decryptPrivateKey(pendingKey.pem, passphrase);
+    setKeyEncryption(pendingKey.encryption || null);
+    setKeyPem(plain);
+    setPendingKey(null);
+  };
+
+  const handleBundleImport = (contents: BundleContents, name: string) => {
+    bundledCasRef.current = contents.caPems;
+    setPendingPkcs12(null);
+    setChainItems([]);
+    setCertInfo(null);
+    setCertPem(contents.certPem);
+    if (contents.keyPem) {
+        acceptKey(contents.keyPem, name);
+    } else {
+        setKeyPem(null);
     }
+  };
 
-    setChainItems(prev => [...prev, ...newItems]);
+  // Routes any dropped or pasted input to the handler for its content type.
+  // certTarget decides where a plain certificate goes: the leaf slot or the chain being built.
+  const handleInput = (input: SniffedInput, certTarget: 'leaf' | 'chain' = 'leaf') => {
+    switch (input.kind) {
+      case 'tar':
+        setMode('validator');
+        setValidatorFileName(input.name);
+        processTarForValidation(input.bytes);
+        return;
+      case 'pkcs12':
+        setMode('builder');
+        setPendingPkcs12(input);
+        return;
+      case 'pem-bundle':
+        setMode('builder');
+        try {
+          handleBundleImport(parsePemBundle(input.text), input.name);
+        } catch {
+          alert(t('parseError'));
+        }
+        return;
+      case 'crl':
+        addCrl(input.bytes, input.name);
+        return;
+      case 'pem-key':
+        setMode('builder');
+        acceptKey(input.text, input.name);
+        return;
+      case 'pkcs7':
+        if (!certPem) {
+          alert(t('loadLeafFirst'));
+          return;
+        }
+        handleAddCa(input.text);
+        return;
+      case 'pem-cert':
+      case 'der-cert':
+        if (certTarget === 'chain' && certPem) {
+          handleAddCa(input.text);
+          return;
+        }
+        setMode('builder');
+        {
+          // A full chain file dropped as the leaf: first cert is the leaf, the rest seed the chain
+          const [leaf, ...cas] = splitCaBundle(input.text);
+          if (cas.length > 0) {
+            bundledCasRef.current = cas;
+            setChainItems([]);
+            setCertInfo(null);
+            setCertPem(leaf);
+          } else {
+            setCertPem(input.text);
+          }
+        }
+        return;
+      default:
+        alert(t('unrecognizedInput'));
+    }
   };
 
   const handleRemoveCa = (index: number) => {
     setChainItems(prev => prev.filter((_, i) => i !== index));
   };
 
-  const handleGenerateTar = () => {
+  const addCrl = (bytes: Uint8Array, name: string) => {
+    try {
+      const crl = parseCrl(bytes, name);
+      setCrls(prev => [...prev, crl]);
+    } catch (e: any) {
+      alert(`${t('invalidCrl')}: ${e.message}`);
+    }
+  };
+
+  // Checks every non-root certificate of the chain against the one above it
+  const checkChainRevocation = async (crlList: CrlInfo[] = crls) => {
+    if (!certPem) return [];
+    const pems = [certPem, ...chainItems.map(c => c.pem)];
+    setCheckingRevocation(true);
+    const results = await Promise.all(pems.slice(0, -1).map(async (pem, i): Promise<[string, RevocationStatus] | null> => {
+      if (isSelfSigned(pem)) return null;
+      const status = await checkRevocation(pem, pems[i + 1], { crls: crlList, online: onlineRevocation })
+        .catch((e): RevocationStatus => ({ state: 'error', message: e.message }));
+      return [certificateSha256(pem), status];
+    }));
+    const checked = results.filter((r): r is [string, RevocationStatus] => r !== null);
+    setRevocation(Object.fromEntries(checked));
+    setCheckingRevocation(false);
+    return checked.map(([, status]) => status);
+  };
+
+  const handleGenerateTar = async () => {
     if (!certInfo || !certPem || !keyPem || !analysis) return;
+    if (!hostsCovered) {
+      alert(t('hostsNotCovered'));
+      return;
+    }
+    if (lintBlocking) {
+      alert(t('lintBlockedAlert'));
+      return;
+    }
+    const statuses = await checkChainRevocation();
+    if (statuses.some(s => s.state === 'revoked')) {
+      alert(t('revokedBlocked'));
+      return;
+    }
     // We just advance the step now, actual generation happens on download/push
     // to respect dynamic filename changes
     setStep(AppStep.PACKAGING);
   };
 
-  const preparePackage = () => {
-    if (!certInfo || !certPem || !keyPem || !analysis) return null;
+  // OpenSSL's PEM passphrase prompts refuse anything shorter than 4 characters
+  const passphraseProblem = !protectKey ? null
+    : keyPassphrase.length < 4 ? t('passphraseTooShort')
+    : keyPassphrase !== keyPassphraseConfirm ? t('passphraseMismatch')
+    : null;
 
-    const baseName = customFilename || analysis.suggestedFilename || "cert";
-    // CA file contains all chain certs
-    const caBundle = chainItems.map(i => i.pem).join('\n');
-    
-    const files = [
-      { name: `${baseName}.crt`, content: certPem },
-      { name: `${baseName}.prv`, content: keyPem },
-      { name: `${baseName}.ca`, content: caBundle }
-    ];
-
-    const tarBytes = createTarball(files);
-    return { tarBytes, fileName: `${baseName}.tar`, baseName };
+  // Packaging needs at least one controller name and every one covered by a SAN
+  const hostCoverage = useMemo(
+    () => certInfo ? checkHostCoverage(certInfo, parseHostList(controllerHosts)) : [],
+    [certInfo, controllerHosts]
+  );
+  const hostsCovered = hostCoverage.length > 0 && hostCoverage.every(c => c.covered);
+  const lintBlocking = lintFindings.some(f => f.severity === 'error');
+  const packagingBlocked = !hostsCovered || lintBlocking;
+
+  const packageBaseName = customFilename || analysis?.analysis?.suggestedFilename || "cert";
+  const packageFileName = `${packageBaseName}.${outputProfile.gzip ? 'tar.gz' : 'tar'}`;
+  const pathValidation = useMemo(
+    () => certPem ? validatePath([certPem, ...chainItems.map(c => c.pem)]) : undefined,
+    [certPem, chainItems]
+  );
+  // Per chain link, the status of the certificate below it
+  const linkRevocation = useMemo(
+    () => certPem ? [certPem, ...chainItems.map(c => c.pem)].slice(0, -1).map(pem => revocation[certificateSha256(pem)]) : [],
+    [certPem, chainItems, revocation]
+  );
+  const trustAnchor = useMemo(
+    () => certPem ? findTrustAnchor([certPem, ...chainItems.map(c => c.pem)], trustStore) : null,
+    [certPem, chainItems, trustStore]
+  );
+
+  const packageLayout = layoutPackage(outputProfile, packageBaseName, chainItems);
+  const wingScriptFileName = `${packageBaseName}.wing-import.txt`;
+  const wingScript = buildWingScript(
+    wingSettings,
+    wingTrustpointName(packageBaseName),
+    packageFileName,
+    packageLayout.find(file => file.parts.includes('cert'))?.name || `${packageBaseName}.crt`,
+    protectKey
+  );
+
+  const preparePackage = async () => {
+    if (!certInfo || !certPem || !keyPem || !analysis || passphraseProblem || packagingBlocked) return null;
+
+    const key = protectKey ? encryptPrivateKey(keyPem, keyPassphrase, keyProtection) : keyPem;
+    const files = addManifest([
+      ...buildPackageFiles(outputProfile, packageBaseName, certPem, key, chainItems),
+      { name: wingScriptFileName, content: wingScript },
+    ], certPem, profileChain(outputProfile, chainItems), signingKey?.pem, certInfo.validFrom, recordBuildTime ? new Date() : undefined);
+
+    // Stamped with the certificate's notBefore so a rebuild from the same inputs is byte-identical
+    const tarBytes = createTarball(files, certInfo.validFrom);
+    const bytes = outputProfile.gzip ? await gzip(tarBytes) : tarBytes;
+    setPackageHash({ fileName: packageFileName, sha256: sha256Hex(bytes) });
+    return { bytes, fileName: packageFileName, baseName: packageBaseName };
   };
 
-  const downloadTar = () => {
-    const pkg = preparePackage();
+  const downloadTar = async () => {
+    const pkg = await preparePackage();
     if (!pkg) return;
 
-    const blob = new Blob([pkg.tarBytes], { type: 'application/x-tar' });
+    const blob = new Blob([pkg.bytes], { type: outputProfile.gzip ? 'application/gzip' : 'application/x-tar' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -321,67 +732,142 @@ export default function App() {
     URL.revokeObjectURL(url);
   };
 
-  const uploadToSftp = async () => {
-    const pkg = preparePackage();
-    if (!pkg) return;
-
+  const uploadToTarget = async (target = targets.find(tg => tg.id === selectedTargetId)) => {
+    if (!target) return;
     setUploading(true);
-    await new Promise(r => setTimeout(r, 2000));
-    
-    setSftpCreds({
-      host: 'sftp.overlords.radio',
-      username: `${pkg.baseName}_user`,
-      password: Math.random().toString(36).slice(-12),
-      path: `/incoming/${pkg.fileName}`,
-      expiresIn: '24h'
-    });
-    setUploading(false);
-    setShowSftp(true);
-    setStep(AppStep.DISTRIBUTION);
+    try {
+        const pkg = await preparePackage();
+        if (!pkg) return;
+        const result = await uploadPackage(target, targetPassword, pkg.fileName, pkg.bytes);
+        setDistributionResult(result);
+        setShowSftp(true);
+        if (result.ok) setStep(AppStep.DISTRIBUTION);
+    } catch (e: any) {
+        // Key encryption, manifest signing or gzip failed before anything was sent
+        setDistributionResult({ ok: false, target, url: '', bytes: 0, durationMs: 0, errorCode: 'package', error: `Package could not be built: ${e.message}` });
+        setShowSftp(true);
+    } finally {
+        setUploading(false);
+    }
+  };
+
+  // Pins the fingerprint the server presented, then retries the upload
+  const trustHostKey = (fingerprint: string) => {
+    if (!distributionResult) return;
+    const pinned = { ...distributionResult.target, hostKeyFingerprint: fingerprint };
+    setTargets(prev => prev.map(tg => tg.id === pinned.id ? pinned : tg));
+    setShowSftp(false);
+    uploadToTarget(pinned);
   };
 
   // --- Validator Logic ---
 
-  const handleTarUpload = (content: string, filename: string) => {
-     // Note: content comes as string from FileUpload, but for binary TAR we need to handle the input differently
+  // The team's own signing key is trusted as soon as it is loaded
+  const changeSigningKey = (key: SigningKey | null) => {
+    setSigningKey(key);
+    if (key && !trustedSigners.some(s => s.fingerprint === key.signer.fingerprint)) {
+      setTrustedSigners([...trustedSigners, { fingerprint: key.signer.fingerprint, name: key.name }]);
+    }
   };
 
-  const handleFileChangeForValidator = (e: React.ChangeEvent<HTMLInputElement>) => {
-     const file = e.target.files?.[0];
-     if (!file) return;
-     
-     setValidatorFileName(file.name);
-     const reader = new FileReader();
-     reader.onload = (evt) => {
-         if (evt.target?.result) {
-             processTarForValidation(evt.target.result as ArrayBuffer);
-         }
-     };
-     reader.readAsArrayBuffer(file);
+  const trustSigner = (signer: TrustedSigner) => {
+    const signers = [...trustedSigners, signer];
+    setTrustedSigners(signers);
+    if (validatorTarRef.current) processTarForValidation(validatorTarRef.current, undefined, signers);
   };
 
-  const processTarForValidation = (buffer: ArrayBuffer) => {
-     const files = untar(buffer);
+  // Only a wrong keyPassphrase rejects, so the unlock prompt can report it; every other problem
+  // in the package is a finding. Re-runs of the same package reuse the passphrase that unlocked its key.
+  const processTarForValidation = async (bytes: Uint8Array, keyPassphrase?: string, signers: TrustedSigner[] = trustedSigners, crlList: CrlInfo[] = crls) => {
+     if (bytes !== validatorTarRef.current) validatorPassphraseRef.current = undefined;
+     validatorTarRef.current = bytes;
+     setValidating(true);
+     try {
+         await validatePackage(bytes, keyPassphrase ?? validatorPassphraseRef.current, signers, crlList);
+     } finally {
+         setValidating(false);
+     }
+  };
+
+  const validatePackage = async (bytes: Uint8Array, keyPassphrase: string | undefined, signers: TrustedSigner[], crlList: CrlInfo[]) => {
      const details: string[] = [];
-     
-     const certFile = files.find(f => f.name.endsWith('.crt') || f.name.endsWith('.cer') || f.name.endsWith('.pem'));
-     const keyFile = files.find(f => f.name.endsWith('.key') || f.name.endsWith('.prv'));
-     const caFile = files.find(f => f.name.endsWith('.ca') || f.name.endsWith('.bundle'));
+     const findings: ValidationFinding[] = [];
+
+     let tarBytes = bytes;
+     if (isGzip(bytes)) {
+         try {
+             // Headers and padding stay well under the content limit, so twice it bounds the tar stream
+             tarBytes = await gunzip(bytes, DEFAULT_TAR_LIMITS.maxTotalSize * 2);
+             details.push(`Decompressed gzip package (${bytes.length} -> ${tarBytes.length} bytes)`);
+         } catch (e: any) {
+             findings.push(e instanceof TarError
+                 ? { code: e.code, severity: 'error', message: e.message }
+                 : { code: 'corrupt-gzip', severity: 'error', message: 'Corrupt gzip stream' });
+             tarBytes = new Uint8Array(0);
+         }
+     }
+     let files: ExtractedFile[] = [];
+     try {
+         files = untar(tarBytes);
+     } catch (e: any) {
+         findings.push({ code: e instanceof TarError ? e.code : 'corrupt-archive', severity: 'error', message: e.message });
+     }
+
+     const inspection = inspectPackage(files);
+     findings.push(...inspection.findings);
+     const manifest = verifyManifest(files, inspection, signers);
+     findings.push(...manifest.findings);
+     if (manifest.check.sourceDate) details.push(`Manifest source date: ${manifest.check.sourceDate}`);
+     if (manifest.check.builtAt) details.push(`Manifest build time: ${manifest.check.builtAt}`);
+     const certFile = inspection.members.cert;
+     const keyFile = inspection.members.key;
+     const caFile = inspection.members.chain;
 
      let keyPairMatch: boolean | null = null;
      let chainComplete: boolean | null = null;
+     let chainProblem: string | undefined;
      let validityStatus: 'valid' | 'expired' | 'not_yet_valid' | 'unknown' = 'unknown';
      let certInfoVal: CertificateInfo | undefined;
+     let keyEncryptionVal: KeyEncryptionInfo | undefined;
+     let keyContent = keyFile?.text;
+     let keyLocked = false;
 
-     if (certFile) details.push(`Found Certificate: ${certFile.name}`);
+     if (certFile) details.push(`Found Certificate: ${certFile.path}`);
      else details.push("Error: No .crt/.cer found");
 
-     if (keyFile) details.push(`Found Private Key: ${keyFile.name}`);
+     if (keyFile) details.push(`Found Private Key: ${keyFile.path}`);
      else details.push("Error: No private key found");
 
+     if (keyFile && isEncryptedKey(keyFile.text)) {
+         keyContent = undefined;
+         try {
+             keyEncryptionVal = describeKeyEncryption(keyFile.text);
+         } catch (e: any) {
+             findings.push({ code: 'key-parse-error', severity: 'error', member: keyFile.path, message: `Encrypted private key cannot be read: ${e.message}` });
+         }
+         if (keyEncryptionVal) {
+             details.push(`Private key is encrypted (${keyEncryptionVal.format}: ${keyEncryptionVal.cipher}, ${keyEncryptionVal.kdf})`);
+             keyEncryptionVal.warnings.forEach(w => details.push(`Warning: ${w}`));
+             if (keyPassphrase === undefined) {
+                 keyLocked = true;
+                 details.push("Key pair not checked: passphrase required");
+             } else {
+                 try {
+                     keyContent = decryptPrivateKey(keyFile.text, keyPassphrase);
+                     validatorPassphraseRef.current = keyPassphrase;
+                     details.push("Private key decrypted");
+                 } catch (e: any) {
+                     // A wrong passphrase goes back to the unlock prompt; the last result stays
+                     if (e instanceof PassphraseError) throw e;
+                     findings.push({ code: 'key-decrypt-error', severity: 'error', member: keyFile.path, message: `Private key cannot be decrypted: ${e.message}` });
+                 }
+             }
+         }
+     }
+
      if (certFile) {
          try {
-             const { info } = parseCertificate(certFile.content);
+             const { info } = parseCertificate(certFile.text);
              certInfoVal = info;
              const now = new Date();
              if (now > info.validTo) validityStatus = 'expired';
@@ -394,53 +880,98 @@ export default function App() {
          }
      }
 
-     if (certFile && keyFile) {
-         keyPairMatch = checkKeyPair(certFile.content, keyFile.content);
+     if (certFile && keyContent) {
+         keyPairMatch = checkKeyPair(certFile.text, keyContent);
          details.push(keyPairMatch ? "Key pair matched successfully" : "CRITICAL: Private key does not match certificate");
      }
 
      if (caFile) {
-         details.push(`Found CA Bundle: ${caFile.name}`);
-         const chainPems = splitCaBundle(caFile.content);
+         details.push(`Found CA Bundle: ${caFile.path}`);
+         const chainPems = splitCaBundle(caFile.text);
          details.push(`Bundle contains ${chainPems.length} certificates`);
          
          if (chainPems.length > 0 && certFile) {
-             // Verify link from Leaf -> First CA
-             let linked = verifyParent(certFile.content, chainPems[0]);
-             if (!linked) {
-                 details.push("Leaf certificate not signed by first CA in bundle");
-             } else {
-                 // Verify chain internal links
-                 let brokenIndex = -1;
-                 for(let i=0; i < chainPems.length - 1; i++) {
-                     if (!verifyParent(chainPems[i], chainPems[i+1])) {
-                         brokenIndex = i;
-                         break;
-                     }
-                 }
-                 if (brokenIndex > -1) {
-                     details.push(`Chain broken between CA #${brokenIndex+1} and CA #${brokenIndex+2}`);
-                     chainComplete = false;
+             try {
+                 // Validate in issuing order whatever order the bundle was written in
+                 const ordered = orderChain(certFile.text, chainPems).map(c => c.pem);
+                 if (ordered.some((pem, i) => pem !== chainPems[i])) details.push("Bundle is not in leaf-first order; reordered for validation");
+
+                 // Issuers the bundle leaves out (usually the root) come from the trust store
+                 const fromStore = completeFromStore(ordered[ordered.length - 1], trustStore, [certFile.text, ...ordered]);
+                 fromStore.forEach(e => details.push(`Completed from trust store: ${e.subject}`));
+
+                 const pathPems = [certFile.text, ...ordered, ...fromStore.map(e => e.pem)];
+                 const path = validatePath(pathPems);
+                 const position = (i: number) => i === 0 ? 'Leaf' : i > ordered.length ? `Trust store CA ${fromStore[i - ordered.length - 1].subject}` : `CA #${i}`;
+                 const problems = [
+                     ...path.links.flatMap((list, i) => list.map(p => ({ ...p, where: `${position(i + 1)} -> ${position(i)}` }))),
+                     // The leaf's own validity has its own status row
+                     ...path.certificates.flatMap((list, i) => list
+                         .filter(p => i > 0 || (p.code !== 'expired' && p.code !== 'not-yet-valid'))
+                         .map(p => ({ ...p, where: position(i) }))),
+                 ];
+                 problems.forEach(p => findings.push({ code: p.code, severity: 'error', member: caFile.path, message: `${p.where}: ${p.message}` }));
+
+                 chainComplete = problems.length === 0;
+                 chainProblem = problems[0] && `${problems[0].where}: ${problems[0].message}`;
+                 details.push(chainComplete ? "Chain validated (RFC 5280)" : `Chain validation failed: ${problems.length} problem(s)`);
+                 details.push(path.anchored ? "Chain ends at a self-signed root" : "Chain does not include its root");
+
+                 const anchor = findTrustAnchor(pathPems, trustStore);
+                 if (anchor) {
+                     details.push(`Anchored at ${anchor.subject} (${anchor.source} trust store)`);
+                 } else if (trustStore.some(e => e.anchor)) {
+                     findings.push({ code: 'unanchored', severity: 'warning', member: caFile.path, message: 'Chain does not lead to a trust anchor in the local trust store' });
                  } else {
-                     details.push("Chain continuity verified");
-                     chainComplete = true;
+                     details.push("No trust anchors configured; chain not anchored");
+                 }
+
+                 // Revocation of every certificate that has an issuer in the path
+                 for (let i = 0; i < pathPems.length - 1; i++) {
+                     if (isSelfSigned(pathPems[i])) continue;
+                     const status = await checkRevocation(pathPems[i], pathPems[i + 1], { crls: crlList, online: onlineRevocation })
+                         .catch((e): RevocationStatus => ({ state: 'error', message: e.message }));
+                     if (status.state === 'revoked') {
+                         findings.push({ code: 'revoked', severity: 'error', member: i === 0 ? certFile.path : caFile.path, message: `${position(i)}: ${status.message}` });
+                     } else if (status.state === 'good') {
+                         details.push(`${position(i)} not revoked (${status.method?.toUpperCase()}: ${status.source})`);
+                     } else {
+                         findings.push({ code: 'revocation-unknown', severity: 'warning', member: i === 0 ? certFile.path : caFile.path, message: `${position(i)}: ${status.message}` });
+                     }
                  }
+             } catch (e: any) {
+                 // A CERTIFICATE block that doesn't decode; the rest of the package is still reported
+                 findings.push({ code: 'corrupt-certificate', severity: 'error', member: caFile.path, message: `Chain cannot be checked: a certificate does not decode (${e.message})` });
+                 chainComplete = false;
+                 chainProblem = 'A certificate does not decode';
              }
-             if (chainComplete === null) chainComplete = linked; // If only 1 CA and it signed leaf
          }
      } else {
          details.push("No CA Bundle found. Cannot verify full chain.");
          chainComplete = null;
      }
 
+     // Same rule pack as the Builder; the bundle is linted in issuing order
+     if (certFile) {
+         const bundle = caFile ? orderChain(certFile.text, splitCaBundle(caFile.text)).map(c => c.pem) : [];
+         const lint = lintChain([certFile.text, ...bundle], rulePack);
+         lint.forEach(({ certificate, ...finding }) => findings.push({ ...finding, member: certificate === 0 ? certFile.path : caFile!.path }));
+         details.push(`Lint (${rulePack.name}): ${lint.length} finding(s)`);
+     }
+
      setValidationResult({
          hasCert: !!certFile,
          hasKey: !!keyFile,
          hasCa: !!caFile,
          keyPairMatch,
+         keyEncryption: keyEncryptionVal,
+         keyLocked,
          chainComplete,
+         chainProblem,
          validityStatus,
          certInfo: certInfoVal,
+         manifest: manifest.check,
+         findings,
          details
      });
   };
@@ -480,6 +1011,12 @@ export default function App() {
                 >
                     <Globe size={12} /> {t('modeRequester')}
                 </button>
+                <button 
+                    onClick={() => setMode('truststore')}
+                    className={`px-3 py-1 rounded-md text-xs font-medium transition-all flex items-center gap-2 ${mode === 'truststore' ? 'bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white shadow-sm' : 'text-zinc-500 dark:text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300'}`}
+                >
+                    <Anchor size={12} /> {t('modeTrustStore')}
+                </button>
             </div>
           </div>
           
@@ -537,19 +1074,53 @@ export default function App() {
                 <h2 className="text-sm font-bold text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">{t('sourceFiles')}</h2>
                 <FileUpload 
                     label={`X.509 Certificate (.crt)`} 
-                    accept=".crt,.pem,.cer"
-                    onFileSelect={(c) => setCertPem(c)}
+                    accept=".crt,.pem,.cer,.der,.crl,.pfx,.p12,.tar,.tgz,.gz"
+                    onFileSelect={(input) => handleInput(input, 'leaf')}
                     fileContent={certPem}
                     onClear={() => { setCertPem(null); setCertInfo(null); }}
                 />
                 <FileUpload 
                     label={`Private Key (.key)`} 
-                    accept=".key,.pem,.prv"
+                    accept=".key,.pem,.prv,.pfx,.p12"
                     icon={FileKey}
-                    onFileSelect={(c) => setKeyPem(c)}
+                    onFileSelect={(input) => handleInput(input, 'leaf')}
                     fileContent={keyPem}
-                    onClear={() => setKeyPem(null)}
+                    onClear={() => { setKeyPem(null); setKeyEncryption(null); }}
                 />
+                {pendingPkcs12 && (
+                    <PassphrasePrompt
+                        key={pendingPkcs12.name}
+                        fileName={pendingPkcs12.name}
+                        description={t('pkcs12Desc')}
+                        placeholder={t('pkcs12Password')}
+                        onSubmit={(password) => handleBundleImport(parsePkcs12(pendingPkcs12.bytes, password), pendingPkcs12.name)}
+                        onCancel={() => setPendingPkcs12(null)}
+                    />
+                )}
+                {pendingKey?.error && (
+                    <div className="relative p-4 bg-red-50 dark:bg-red-900/10 border border-red-500/30 rounded-xl text-xs space-y-1 animate-fade-in">
+                        <button
+                            onClick={() => setPendingKey(null)}
+                            className="absolute top-2 right-2 p-1.5 text-zinc-400 hover:text-red-500 rounded-full"
+                        >
+                            <X size={14} />
+                        </button>
+                        <div className="font-mono text-sm text-zinc-700 dark:text-zinc-200 truncate pr-8">{pendingKey.name}</div>
+                        <p className="font-bold text-red-600 dark:text-red-400">{t('keyParseError')}</p>
+                        <p className="font-mono text-red-600 dark:text-red-400 break-all">{pendingKey.error}</p>
+                    </div>
+                )}
+                {pendingKey && !pendingKey.error && (
+                    <PassphrasePrompt
+                        key={pendingKey.name}
+                        fileName={pendingKey.name}
+                        description={t('keyEncryptedDesc')}
+                        placeholder={t('keyPassphrase')}
+                        encryption={pendingKey.encryption}
+                        onSubmit={unlockKey}
+                        onCancel={() => setPendingKey(null)}
+                    />
+                )}
                 </div>
                 
                 {certInfo && step !== AppStep.UPLOAD && (
@@ -560,17 +1131,29 @@ export default function App() {
                         <div className={`w-2 h-2 rounded-full ${keyMatched ? 'bg-emerald-500' : 'bg-red-500'}`}></div>
                         <span className="text-xs text-zinc-600 dark:text-zinc-400">{keyMatched ? t('keyMatched') : t('keyMismatch')}</span>
                         </div>
+                        {keyEncryption && (
+                            <div className="mt-2 text-xs text-zinc-500 space-y-1">
+                                <div className="font-mono truncate" title={keyEncryption.kdf}>{t('keyDecrypted')}: {keyEncryption.cipher}, {keyEncryption.kdf}</div>
+                                {keyEncryption.warnings.map((warning, i) => (
+                                    <div key={i} className="text-yellow-700 dark:text-yellow-400">{warning}</div>
+                                ))}
+                            </div>
+                        )}
                     </div>
                 )}
 
+                {certInfo && (
+                    <HostCoveragePanel hosts={controllerHosts} onChange={setControllerHosts} coverage={hostCoverage} />
+                )}
+
                 {certInfo && keyMatched && (
                 <button 
                     onClick={handleGenerateTar}
-                    disabled={isAnalyzing || loadingChain || !chainItems.length}
+                    disabled={isAnalyzing || loadingChain || checkingRevocation || !chainItems.length || packagingBlocked}
                     className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 disabled:bg-zinc-200 dark:disabled:bg-zinc-800 disabled:text-zinc-400 dark:disabled:text-zinc-500 disabled:cursor-not-allowed text-white rounded-xl font-medium transition-all flex items-center justify-center gap-2 shadow-lg shadow-indigo-500/20 dark:shadow-indigo-900/20"
                 >
-                    {isAnalyzing ? <Loader2 className="animate-spin w-4 h-4" /> : <Package className="w-4 h-4" />}
-                    {chainItems.length === 0 ? t('buildChainFirst') : t('generatePackage')}
+                    {isAnalyzing || checkingRevocation ? <Loader2 className="animate-spin w-4 h-4" /> : <Package className="w-4 h-4" />}
+                    {chainItems.length === 0 ? t('buildChainFirst') : !hostsCovered ? t('hostsNotCoveredShort') : lintBlocking ? t('lintBlockedShort') : checkingRevocation ? t('checkingRevocation') : t('generatePackage')}
                 </button>
                 )}
             </div>
@@ -600,9 +1183,23 @@ export default function App() {
                         <ChainBuilder 
                             leafCert={certInfo}
                             chain={chainItems}
-                            onAddCa={handleAddCa}
+                            validation={pathValidation}
+                            anchor={trustAnchor}
+                            revocation={linkRevocation}
+                            onAddCa={(input) => handleInput(input, 'chain')}
                             onRemoveCa={handleRemoveCa}
                         />
+                        <div className="mt-6">
+                            <RevocationPanel
+                                crls={crls}
+                                onAddCrl={addCrl}
+                                onRemoveCrl={(index) => setCrls(prev => prev.filter((_, i) => i !== index))}
+                                online={onlineRevocation}
+                                onOnlineChange={setOnlineRevocation}
+                                onCheck={() => checkChainRevocation()}
+                                checking={checkingRevocation}
+                            />
+                        </div>
                     </div>
                 )}
 
@@ -617,21 +1214,47 @@ export default function App() {
                     loadingChain={loadingChain}
                     />
 
-                    {analysis ? (
+                    <LintPanel findings={lintFindings} pack={rulePack} onPackChange={setRulePack} />
+
+                    {analysis && !isAnalyzing ? (
                     <div className="bg-white dark:bg-zinc-900/30 border border-zinc-200 dark:border-zinc-800 p-5 rounded-xl space-y-3 shadow-sm">
                         <div className="flex items-center gap-2 text-sm text-indigo-600 dark:text-indigo-400 font-bold">
                         <div className="w-2 h-2 bg-indigo-500 rounded-full" />
                         {t('securityAssessment')}
+                        <div className="flex-1" />
+                        <button
+                            onClick={reanalyze}
+                            className="flex items-center gap-1.5 px-2 py-1 text-xs font-normal text-zinc-600 dark:text-zinc-300 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg hover:border-indigo-500"
+                        >
+                            <RefreshCw size={12} /> {t('reanalyze')}
+                        </button>
                         </div>
-                        <p className="text-zinc-600 dark:text-zinc-300 text-sm leading-relaxed">{analysis.assessment}</p>
-                        
+                        {analysis.analysis ? (
+                            <p className="text-zinc-600 dark:text-zinc-300 text-sm leading-relaxed">{analysis.analysis.assessment}</p>
+                        ) : (
+                            <div className="p-3 bg-yellow-50 dark:bg-yellow-900/10 border border-yellow-500/30 rounded-lg text-xs space-y-1">
+                                <p className="font-bold text-yellow-700 dark:text-yellow-500">{t('analysisFailed')}</p>
+                                <p className="font-mono text-yellow-700 dark:text-yellow-500 break-all">{analysis.error}</p>
+                                <p className="text-zinc-600 dark:text-zinc-400">{t('analysisFailedHint')}</p>
+                            </div>
+                        )}
+                        <AnalysisProviderPanel
+                            settings={analysisSettings}
+                            apiKey={analysisApiKey}
+                            onApply={applyAnalysisSettings}
+                            answeredBy={analysis.provider}
+                        />
+
                         <div className="p-3 bg-zinc-50 dark:bg-black/40 rounded border border-zinc-200 dark:border-zinc-800 font-mono text-xs text-zinc-500 dark:text-zinc-400 flex items-center gap-3">
                         <span className="shrink-0">{t('suggestedFilename')}:</span>
                         <div className="flex-1 relative">
                             <input 
                                 type="text" 
                                 value={customFilename}
-                                onChange={(e) => setCustomFilename(e.target.value)}
+                                onChange={(e) => {
+                                    filenameEditedRef.current = e.target.value !== '';
+                                    setCustomFilename(e.target.value);
+                                }}
                                 className="w-full bg-transparent border-none focus:outline-none text-emerald-600 dark:text-emerald-400 text-sm font-bold border-b border-dashed border-zinc-300 dark:border-zinc-700 focus:border-emerald-500"
                             />
                             <PenLine className="w-3 h-3 text-zinc-400 dark:text-zinc-600 absolute right-0 top-1 pointer-events-none" />
@@ -649,33 +1272,125 @@ export default function App() {
                         <div className="flex items-center justify-between">
                         <div>
                             <h3 className="text-lg font-bold text-emerald-700 dark:text-emerald-400">{t('artifactsCreated')}</h3>
-                            <p className="text-sm text-emerald-600/60 dark:text-emerald-400/60 font-mono mt-1">{customFilename || analysis?.suggestedFilename}.tar</p>
+                            <p className="text-sm text-emerald-600/60 dark:text-emerald-400/60 font-mono mt-1">{packageFileName}</p>
                         </div>
                         <div className="p-3 bg-emerald-500/20 rounded-full">
                             <Package className="w-8 h-8 text-emerald-600 dark:text-emerald-500" />
                         </div>
                         </div>
                         
-                        <div className="grid grid-cols-2 gap-4 text-xs text-zinc-500 dark:text-zinc-400 font-mono border-t border-emerald-500/20 pt-4">
-                            <div>{customFilename || analysis?.suggestedFilename}.crt</div>
-                            <div>{customFilename || analysis?.suggestedFilename}.prv</div>
-                            <div>{customFilename || analysis?.suggestedFilename}.ca ({chainItems.length} certs)</div>
+                        <div className="border-t border-emerald-500/20 pt-4">
+                            <OutputProfileSelector profile={outputProfile} onChange={setOutputProfile} />
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4 text-xs text-zinc-500 dark:text-zinc-400 font-mono">
+                            {packageLayout.map(file => (
+                                <div key={file.name} className="truncate" title={file.name}>
+                                    {file.name}
+                                    {file.parts.includes('chain') && ` (${file.chain.length} certs)`}
+                                    {file.parts.includes('key') && protectKey && ` (${t('encrypted')})`}
+                                </div>
+                            ))}
+                            <div className="truncate" title={wingScriptFileName}>{wingScriptFileName}</div>
+                            <div className="truncate">{MANIFEST_FILE}{signingKey && ` + ${SIGNATURE_FILE}`}</div>
+                        </div>
+
+                        {packageHash && (
+                            <div className="text-xs font-mono text-zinc-500 dark:text-zinc-400 space-y-1">
+                                <div className="break-all select-all" title={t('packageHashHint')}>
+                                    SHA-256 {packageHash.fileName}: <span className="text-zinc-700 dark:text-zinc-300">{packageHash.sha256}</span>
+                                </div>
+                                {protectKey && <p className="font-sans text-yellow-700 dark:text-yellow-400">{t('notReproducible')}</p>}
+                                {recordBuildTime && <p className="font-sans text-yellow-700 dark:text-yellow-400">{t('buildTimeNotReproducible')}</p>}
+                            </div>
+                        )}
+
+                        <div className="border-t border-emerald-500/20 pt-4 space-y-3">
+                            <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300 cursor-pointer select-none">
+                                <input
+                                    type="checkbox"
+                                    checked={protectKey}
+                                    onChange={(e) => setProtectKey(e.target.checked)}
+                                    className="accent-emerald-600"
+                                />
+                                <Lock className="w-4 h-4 text-emerald-600 dark:text-emerald-500" /> {t('protectKey')}
+                            </label>
+                            {protectKey && (
+                                <div className="space-y-2">
+                                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                                        <input
+                                            type="password"
+                                            value={keyPassphrase}
+                                            onChange={(e) => setKeyPassphrase(e.target.value)}
+                                            placeholder={t('keyPassphrase')}
+                                            className="px-3 py-1.5 text-sm bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg focus:outline-none focus:border-emerald-500"
+                                        />
+                                        <input
+                                            type="password"
+                                            value={keyPassphraseConfirm}
+                                            onChange={(e) => setKeyPassphraseConfirm(e.target.value)}
+                                            placeholder={t('confirmPassphrase')}
+                                            className="px-3 py-1.5 text-sm bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg focus:outline-none focus:border-emerald-500"
+                                        />
+                                        <select
+                                            value={keyProtection}
+                                            onChange={(e) => setKeyProtection(e.target.value as KeyProtection)}
+                                            className="px-3 py-1.5 text-sm bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg focus:outline-none focus:border-emerald-500"
+                                        >
+                                            <option value="legacy">{t('keyFormatLegacy')}</option>
+                                            <option value="pkcs8">{t('keyFormatPkcs8')}</option>
+                                        </select>
+                                    </div>
+                                    <p className={`text-xs ${passphraseProblem ? 'text-red-600 dark:text-red-400' : 'text-zinc-500'}`}>
+                                        {passphraseProblem || t('protectKeyHint')}
+                                    </p>
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="border-t border-emerald-500/20 pt-4 space-y-3">
+                            <SigningKeyPanel signingKey={signingKey} onChange={changeSigningKey} />
+                            <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300 cursor-pointer select-none">
+                                <input
+                                    type="checkbox"
+                                    checked={recordBuildTime}
+                                    onChange={(e) => setRecordBuildTime(e.target.checked)}
+                                    className="accent-emerald-600"
+                                />
+                                {t('recordBuildTime')}
+                            </label>
+                        </div>
+
+                        <div className="border-t border-emerald-500/20 pt-4">
+                            <DistributionTargets
+                                targets={targets}
+                                selectedId={selectedTargetId}
+                                password={targetPassword}
+                                onTargetsChange={setTargets}
+                                onSelect={setSelectedTargetId}
+                                onPasswordChange={setTargetPassword}
+                            />
+                        </div>
+
+                        <div className="border-t border-emerald-500/20 pt-4">
+                            <WingScriptPanel settings={wingSettings} script={wingScript} onChange={setWingSettings} />
                         </div>
 
                         <div className="flex flex-col sm:flex-row gap-3 pt-2">
                         <button 
                             onClick={downloadTar}
-                            className="flex-1 py-2.5 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 text-zinc-900 dark:text-white rounded-lg font-medium flex items-center justify-center gap-2 transition-colors"
+                            disabled={!!passphraseProblem || packagingBlocked}
+                            className="flex-1 py-2.5 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 text-zinc-900 dark:text-white rounded-lg font-medium flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
                         >
                             <Download className="w-4 h-4" /> {t('downloadLocal')}
                         </button>
                         <button 
-                            onClick={uploadToSftp}
-                            disabled={uploading}
+                            onClick={() => uploadToTarget()}
+                            disabled={uploading || !!passphraseProblem || packagingBlocked || !targets.some(tg => tg.id === selectedTargetId && tg.host)}
                             className="flex-1 py-2.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-medium flex items-center justify-center gap-2 transition-colors disabled:opacity-70"
                         >
                             {uploading ? <Loader2 className="animate-spin w-4 h-4" /> : <UploadCloud className="w-4 h-4" />}
-                            {uploading ? t('uploading') : t('pushSftp')}
+                            {uploading ? t('uploading') : t('pushToTarget')}
                         </button>
                         </div>
                     </div>
@@ -686,41 +1401,62 @@ export default function App() {
             </div>
         ) : mode === 'validator' ? (
             // --- VALIDATOR VIEW ---
-            <div className="max-w-3xl mx-auto">
+            <div className="max-w-3xl mx-auto space-y-6">
                 {!validationResult ? (
-                     <div className="relative group border-2 border-dashed border-zinc-300 dark:border-zinc-700 hover:border-indigo-500 dark:hover:border-indigo-500 hover:bg-indigo-50/30 dark:hover:bg-zinc-800/50 rounded-2xl p-12 transition-all duration-300 text-center bg-white/50 dark:bg-zinc-900/20">
-                        <input 
-                            type="file" 
-                            accept=".tar" 
-                            onChange={handleFileChangeForValidator}
-                            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" 
-                        />
-                        <div className="flex flex-col items-center justify-center space-y-4">
-                            <div className="p-4 rounded-full bg-zinc-100 dark:bg-zinc-800 text-zinc-400 group-hover:text-indigo-500 dark:group-hover:text-indigo-400 transition-colors">
-                                <Package className="w-12 h-12" />
-                            </div>
-                            <div>
-                                <h3 className="text-xl font-bold text-zinc-800 dark:text-white">{t('validateTitle')}</h3>
-                                <p className="text-zinc-500 dark:text-zinc-400 mt-2 max-w-sm mx-auto">
-                                    {t('validateDesc')}
-                                </p>
-                            </div>
+                    <div className="space-y-6">
+                        <div className="text-center">
+                            <h3 className="text-xl font-bold text-zinc-800 dark:text-white">{t('validateTitle')}</h3>
+                            <p className="text-zinc-500 dark:text-zinc-400 mt-2 max-w-sm mx-auto">
+                                {t('validateDesc')}
+                            </p>
                         </div>
+                        <FileUpload 
+                            label={t('selectPackage')}
+                            accept=".tar,.tgz,.gz"
+                            icon={Package}
+                            onFileSelect={(input) => handleInput(input)}
+                        />
                     </div>
                 ) : (
-                    <PackageVerifier fileName={validatorFileName} result={validationResult} />
+                    <PackageVerifier
+                        fileName={validatorFileName}
+                        result={validationResult}
+                        onUnlockKey={async (passphrase) => { if (validatorTarRef.current) await processTarForValidation(validatorTarRef.current, passphrase); }}
+                        onTrustSigner={trustSigner}
+                    />
                 )}
+                <RevocationPanel
+                    crls={crls}
+                    onAddCrl={addCrl}
+                    onRemoveCrl={(index) => setCrls(prev => prev.filter((_, i) => i !== index))}
+                    online={onlineRevocation}
+                    onOnlineChange={setOnlineRevocation}
+                    onCheck={validationResult ? () => { if (validatorTarRef.current && !validating) processTarForValidation(validatorTarRef.current); } : undefined}
+                    checking={validating}
+                />
             </div>
-        ) : (
+        ) : mode === 'requester' ? (
             // --- REQUESTER VIEW ---
             <CertRequester />
+        ) : (
+            // --- TRUST STORE VIEW ---
+            <div className="space-y-10">
+                <TrustStoreManager entries={trustStore} onChange={setTrustStore} />
+                <div className="max-w-3xl mx-auto">
+                    <CaCacheBrowser />
+                </div>
+                <div className="max-w-3xl mx-auto">
+                    <FetchRelayPanel settings={fetchSettings} onChange={setFetchSettings} />
+                </div>
+            </div>
         )}
       </main>
 
       <SftpModal 
         isOpen={showSftp} 
-        credentials={sftpCreds} 
+        result={distributionResult} 
         onClose={() => setShowSftp(false)} 
+        onTrustHostKey={trustHostKey}
       />
     </div>
   );
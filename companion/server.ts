@@ -0,0 +1,168 @@
+// Local companion service: uploads packages for the browser app, which cannot speak SFTP, FTP or TFTP itself,
+// and relays AIA / OCSP / CRL fetches for servers that send no CORS headers.
+// Run with `npm run companion`. Listens on 127.0.0.1 only, for the origins in COMPANION_ORIGINS.
+import http from 'http';
+import { randomBytes } from 'crypto';
+import { posix } from 'path';
+import { DistributionTarget } from '../types';
+import { transports } from './transports';
+import { TransferError } from './transfer';
+import { hostAllowed } from '../services/fetchRelayService';
+
+const HOST = process.env.COMPANION_HOST || '127.0.0.1';
+const PORT = Number(process.env.COMPANION_PORT) || 8787;
+const ALLOWED_ORIGINS = (process.env.COMPANION_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000').split(',');
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+const TICKET_TTL_MS = 60 * 1000;
+const FETCH_HOSTS = (process.env.COMPANION_FETCH_HOSTS || '').split(',').filter(Boolean);
+const FETCH_TIMEOUT_MS = 15000;
+
+// --- One-time Upload Tickets ---
+// Every upload must present a fresh ticket. Pages from other origins can request one but,
+// without CORS access, never read it, so they cannot drive uploads through this service.
+
+const tickets = new Map<string, number>(); // ticket -> expiry
+
+const issueTicket = (): string => {
+  const now = Date.now();
+  tickets.forEach((expiry, ticket) => { if (expiry < now) tickets.delete(ticket); });
+  const ticket = randomBytes(32).toString('base64url');
+  tickets.set(ticket, now + TICKET_TTL_MS);
+  return ticket;
+};
+
+const consumeTicket = (ticket: string | undefined): boolean => {
+  if (!ticket) return false;
+  const expiry = tickets.get(ticket);
+  tickets.delete(ticket);
+  return expiry !== undefined && expiry >= Date.now();
+};
+
+// --- Request Handling ---
+
+const readBody = (req: http.IncomingMessage): Promise<Buffer> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Request too large'));
+      req.destroy();
+    } else {
+      chunks.push(chunk);
+    }
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const validateTarget = (target: any): string | null => {
+  if (!target || typeof target !== 'object') return 'Missing target';
+  if (!(target.protocol in transports)) return `Unsupported protocol: ${target.protocol}`;
+  if (typeof target.host !== 'string' || !/^[A-Za-z0-9.:[\]-]+$/.test(target.host)) return 'Invalid host';
+  if (target.port !== undefined && !(Number.isInteger(target.port) && target.port > 0 && target.port < 65536)) return 'Invalid port';
+  if (typeof target.path !== 'string' || typeof target.username !== 'string') return 'Invalid path or username';
+  return null;
+};
+
+const handleUpload = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  if (!consumeTicket(req.headers['x-upload-ticket'] as string | undefined)) {
+    return sendJson(res, 401, { ok: false, errorCode: 'companion', error: 'Missing, used or expired upload ticket' });
+  }
+
+  let job: { target: DistributionTarget; password?: string; fileName: string; data: string };
+  try {
+    job = JSON.parse((await readBody(req)).toString('utf8'));
+  } catch (e: any) {
+    return sendJson(res, 400, { ok: false, errorCode: 'companion', error: e.message });
+  }
+
+  const problem = validateTarget(job.target)
+    || (typeof job.fileName !== 'string' || job.fileName !== posix.basename(job.fileName) || job.fileName.startsWith('.') ? 'Invalid file name' : null)
+    || (typeof job.data !== 'string' ? 'Missing file data' : null);
+  if (problem) return sendJson(res, 400, { ok: false, errorCode: 'companion', error: problem });
+
+  const data = Buffer.from(job.data, 'base64');
+  const started = Date.now();
+  try {
+    const outcome = await transports[job.target.protocol].upload({
+      target: job.target,
+      password: job.password || '',
+      fileName: job.fileName,
+      data,
+    });
+    console.log(`uploaded ${data.length} bytes to ${outcome.url}`);
+    sendJson(res, 200, { ok: true, bytes: data.length, durationMs: Date.now() - started, ...outcome });
+  } catch (e: any) {
+    const err = e instanceof TransferError ? e : new TransferError('network', e.message);
+    console.log(`upload to ${job.target.protocol}://${job.target.host} failed: ${err.message}`);
+    sendJson(res, 502, {
+      ok: false,
+      bytes: data.length,
+      durationMs: Date.now() - started,
+      errorCode: err.code,
+      error: err.message,
+      hostKeyFingerprint: err.hostKeyFingerprint,
+    });
+  }
+};
+
+// GET /fetch?url=... : the relay. Only http(s) URLs on COMPANION_FETCH_HOSTS (any host if unset).
+const handleFetch = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const url = new URL(req.url || '/', 'http://companion').searchParams.get('url') || '';
+  if (!/^https?:\/\//i.test(url) || !hostAllowed(url, FETCH_HOSTS)) {
+    return sendJson(res, 403, { ok: false, error: `Not relaying ${url || 'an empty URL'}` });
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, { redirect: 'follow', signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  } catch (e: any) {
+    console.log(`relay ${url} failed: ${e.cause?.message || e.message}`);
+    return sendJson(res, 502, { ok: false, error: e.cause?.message || e.message });
+  }
+  const body = Buffer.from(await response.arrayBuffer());
+  if (body.length > MAX_BODY_BYTES) return sendJson(res, 502, { ok: false, error: 'Response too large' });
+  console.log(`relayed ${url}: HTTP ${response.status}, ${body.length} bytes`);
+  res.writeHead(response.status, { 'Content-Type': response.headers.get('content-type') || 'application/octet-stream' });
+  res.end(body);
+};
+
+const server = http.createServer((req, res) => {
+  const origin = req.headers.origin;
+  if (origin) {
+    if (!ALLOWED_ORIGINS.includes(origin)) return sendJson(res, 403, { ok: false, error: `Origin ${origin} not allowed` });
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Upload-Ticket');
+    res.setHeader('Vary', 'Origin');
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+  if (req.method === 'GET' && req.url === '/health') {
+    return sendJson(res, 200, { ok: true, protocols: Object.keys(transports) });
+  }
+  if (req.method === 'GET' && req.url?.startsWith('/fetch?')) {
+    handleFetch(req, res).catch((e) => sendJson(res, 500, { ok: false, error: e.message }));
+    return;
+  }
+  if (req.method === 'POST' && req.url === '/tickets') {
+    return sendJson(res, 200, { ticket: issueTicket() });
+  }
+  if (req.method === 'POST' && req.url === '/upload') {
+    handleUpload(req, res).catch((e) => sendJson(res, 500, { ok: false, errorCode: 'companion', error: e.message }));
+    return;
+  }
+  sendJson(res, 404, { ok: false, error: 'Not found' });
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Companion listening on http://${HOST}:${PORT} for ${ALLOWED_ORIGINS.join(', ')}`);
+});
@@ -0,0 +1,38 @@
+import { posix } from 'path';
+import { DistributionTarget, TransferErrorCode } from '../types';
+
+// One package upload as handed to a transport. The password is used for this job only.
+export interface UploadJob {
+  target: DistributionTarget;
+  password: string;
+  fileName: string;
+  data: Buffer;
+}
+
+export interface UploadOutcome {
+  url: string;
+  hostKeyFingerprint?: string;
+}
+
+// A transport writes one file to one server; it is registered per protocol in ./transports
+export interface Transport {
+  defaultPort: number;
+  upload: (job: UploadJob) => Promise<UploadOutcome>;
+}
+
+export class TransferError extends Error {
+  constructor(public code: TransferErrorCode, message: string, public hostKeyFingerprint?: string) {
+    super(message);
+    this.name = 'TransferError';
+  }
+}
+
+export const remotePath = (target: DistributionTarget, fileName: string): string =>
+  posix.join(target.path || '.', fileName);
+
+// Human-readable location of the uploaded file (never includes the password)
+export const targetUrl = (target: DistributionTarget, port: number, fileName: string): string => {
+  const login = target.username && target.protocol !== 'tftp' ? `${encodeURIComponent(target.username)}@` : '';
+  const path = remotePath(target, fileName).replace(/^\.?\/?/, '/');
+  return `${target.protocol}://${login}${target.host}:${port}${path}`;
+};
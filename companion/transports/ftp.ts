@@ -0,0 +1,24 @@
+import { Readable } from 'stream';
+import { Client, FTPError } from 'basic-ftp';
+import { Transport, TransferError, targetUrl } from '../transfer';
+
+export const ftpTransport: Transport = {
+  defaultPort: 21,
+  upload: async ({ target, password, fileName, data }) => {
+    const port = target.port || ftpTransport.defaultPort;
+    const client = new Client(15000);
+    try {
+      await client.access({ host: target.host, port, user: target.username || 'anonymous', password });
+      if (target.path) await client.cd(target.path);
+      await client.uploadFrom(Readable.from(data), fileName);
+      return { url: targetUrl(target, port, fileName) };
+    } catch (e: any) {
+      if (e instanceof FTPError) {
+        throw new TransferError(e.code === 530 ? 'auth' : 'remote', `FTP ${e.code}: ${e.message}`);
+      }
+      throw new TransferError('network', e.message);
+    } finally {
+      client.close();
+    }
+  },
+};
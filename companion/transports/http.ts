@@ -0,0 +1,31 @@
+import { Transport, TransferError, remotePath } from '../transfer';
+
+// HTTP PUT (WebDAV-style drop). Port 443 switches to HTTPS.
+export const httpTransport: Transport = {
+  defaultPort: 80,
+  upload: async ({ target, password, fileName, data }) => {
+    const port = target.port || httpTransport.defaultPort;
+    const scheme = port === 443 ? 'https' : 'http';
+    const path = remotePath(target, fileName).replace(/^\.?\/?/, '/').split('/').map(encodeURIComponent).join('/');
+    const url = `${scheme}://${target.host}:${port}${path}`;
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/octet-stream' };
+    if (target.username) {
+      headers.Authorization = 'Basic ' + Buffer.from(`${target.username}:${password}`).toString('base64');
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, { method: 'PUT', headers, body: data, signal: AbortSignal.timeout(30000) });
+    } catch (e: any) {
+      throw new TransferError('network', e.cause?.message || e.message);
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new TransferError('auth', `HTTP ${response.status} ${response.statusText}`);
+    }
+    if (!response.ok) {
+      throw new TransferError('remote', `HTTP ${response.status} ${response.statusText}`);
+    }
+    return { url };
+  },
+};
@@ -0,0 +1,14 @@
+import { TransferProtocol } from '../../types';
+import { Transport } from '../transfer';
+import { sftpTransport } from './sftp';
+import { ftpTransport } from './ftp';
+import { tftpTransport } from './tftp';
+import { httpTransport } from './http';
+
+// Protocol -> transport. A new protocol only needs an entry here and in TransferProtocol.
+export const transports: Record<TransferProtocol, Transport> = {
+  sftp: sftpTransport,
+  ftp: ftpTransport,
+  tftp: tftpTransport,
+  http: httpTransport,
+};
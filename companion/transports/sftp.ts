@@ -0,0 +1,56 @@
+import { createHash } from 'crypto';
+import { Client } from 'ssh2';
+import { Transport, TransferError, remotePath, targetUrl } from '../transfer';
+
+// Same form as `ssh-keygen -lf`: SHA256 over the key blob, unpadded base64
+export const sshFingerprint = (key: Buffer): string =>
+  'SHA256:' + createHash('sha256').update(key).digest('base64').replace(/=+$/, '');
+
+export const sftpTransport: Transport = {
+  defaultPort: 22,
+  upload: ({ target, password, fileName, data }) => new Promise((resolve, reject) => {
+    const port = target.port || sftpTransport.defaultPort;
+    const client = new Client();
+    let presented: string | undefined;
+    let hostKeyError: TransferError | undefined;
+
+    client.on('ready', () => {
+      client.sftp((err, sftp) => {
+        if (err) {
+          client.end();
+          return reject(new TransferError('remote', `SFTP subsystem unavailable: ${err.message}`, presented));
+        }
+        const remote = remotePath(target, fileName);
+        sftp.writeFile(remote, data, (writeErr) => {
+          client.end();
+          if (writeErr) reject(new TransferError('remote', `${remote}: ${writeErr.message}`, presented));
+          else resolve({ url: targetUrl(target, port, fileName), hostKeyFingerprint: presented });
+        });
+      });
+    });
+
+    client.on('error', (err: Error & { level?: string }) => {
+      client.end();
+      if (hostKeyError) return reject(hostKeyError);
+      const code = err.level === 'client-authentication' ? 'auth' : 'network';
+      reject(new TransferError(code, err.message, presented));
+    });
+
+    client.connect({
+      host: target.host,
+      port,
+      username: target.username,
+      password,
+      readyTimeout: 15000,
+      // Only a pinned key is accepted; an unknown one is reported so it can be checked and pinned
+      hostVerifier: (key: Buffer) => {
+        presented = sshFingerprint(key);
+        if (target.hostKeyFingerprint === presented) return true;
+        hostKeyError = target.hostKeyFingerprint
+          ? new TransferError('host-key-mismatch', `Host key changed: expected ${target.hostKeyFingerprint}, got ${presented}`, presented)
+          : new TransferError('host-key-unknown', `Host key ${presented} is not pinned for this target`, presented);
+        return false;
+      },
+    });
+  }),
+};
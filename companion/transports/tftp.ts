@@ -0,0 +1,77 @@
+import dgram from 'dgram';
+import { Transport, TransferError, remotePath, targetUrl } from '../transfer';
+
+// RFC 1350 write in octet mode, without option negotiation
+const OP_WRQ = 2;
+const OP_DATA = 3;
+const OP_ACK = 4;
+const OP_ERROR = 5;
+
+const BLOCK_SIZE = 512;
+const TIMEOUT_MS = 2000;
+const MAX_RETRIES = 5;
+
+const u16 = (n: number) => {
+  const buf = Buffer.alloc(2);
+  buf.writeUInt16BE(n & 0xffff);
+  return buf;
+};
+
+export const tftpTransport: Transport = {
+  defaultPort: 69,
+  upload: ({ target, fileName, data }) => new Promise((resolve, reject) => {
+    const port = target.port || tftpTransport.defaultPort;
+    const remote = remotePath(target, fileName).replace(/^\.\//, '');
+    const wrq = Buffer.concat([u16(OP_WRQ), Buffer.from(`${remote}\0octet\0`, 'ascii')]);
+    // The last block is always shorter than BLOCK_SIZE, empty if the size is an exact multiple
+    const lastBlock = Math.floor(data.length / BLOCK_SIZE) + 1;
+
+    const socket = dgram.createSocket('udp4');
+    let block = 0; // 0 is the write request itself
+    let retries = 0;
+    let peer: { address: string; port: number } | null = null; // server's transfer ID, set by the first ACK
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (err?: TransferError) => {
+      clearTimeout(timer);
+      socket.close();
+      if (err) reject(err);
+      else resolve({ url: targetUrl(target, port, fileName) });
+    };
+
+    const send = () => {
+      const packet = block === 0
+        ? wrq
+        : Buffer.concat([u16(OP_DATA), u16(block), data.subarray((block - 1) * BLOCK_SIZE, block * BLOCK_SIZE)]);
+      const dest = peer || { address: target.host, port };
+      socket.send(packet, dest.port, dest.address, (err) => {
+        if (err) finish(new TransferError('network', err.message));
+      });
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        if (++retries > MAX_RETRIES) finish(new TransferError('network', `TFTP timeout waiting for ACK of block ${block}`));
+        else send();
+      }, TIMEOUT_MS);
+    };
+
+    socket.on('message', (msg, rinfo) => {
+      if (peer && (rinfo.address !== peer.address || rinfo.port !== peer.port)) return;
+      if (msg.length < 4) return;
+      const op = msg.readUInt16BE(0);
+      if (op === OP_ERROR) {
+        const text = msg.toString('ascii', 4).split('\0')[0];
+        return finish(new TransferError('remote', `TFTP error ${msg.readUInt16BE(2)}: ${text}`));
+      }
+      // Duplicate or stale ACKs are ignored; the timer resends if the expected one never comes
+      if (op !== OP_ACK || msg.readUInt16BE(2) !== (block & 0xffff)) return;
+      peer = peer || { address: rinfo.address, port: rinfo.port };
+      if (block === lastBlock) return finish();
+      block++;
+      retries = 0;
+      send();
+    });
+    socket.on('error', (err) => finish(new TransferError('network', err.message)));
+
+    send();
+  }),
+};
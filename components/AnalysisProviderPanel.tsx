@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Bot, Settings2, RefreshCw } from 'lucide-react';
+import { AnalysisProviderId, AnalysisSettings } from '../types';
+import { ANALYSIS_PROVIDERS } from '../services/analysisService';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface AnalysisProviderPanelProps {
+  settings: AnalysisSettings;
+  apiKey: string;
+  onApply: (settings: AnalysisSettings, apiKey: string) => void; // saves and re-runs the analysis
+  answeredBy?: string; // provider and model of the current analysis
+}
+
+const smallButton = "flex items-center gap-1.5 px-2 py-1 text-xs bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg hover:border-indigo-500";
+const fieldClass = "w-full px-2 py-1 text-xs font-mono bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg focus:outline-none focus:border-indigo-500";
+
+// Which model writes the assessment; edits are drafts until applied so typing doesn't re-run it
+export const AnalysisProviderPanel: React.FC<AnalysisProviderPanelProps> = ({ settings, apiKey, onApply, answeredBy }) => {
+  const { t } = useLanguage();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(settings);
+  const [draftKey, setDraftKey] = useState(apiKey);
+
+  const provider = ANALYSIS_PROVIDERS.find(p => p.id === draft.provider) || ANALYSIS_PROVIDERS[0];
+
+  const toggle = () => {
+    if (!open) {
+      setDraft(settings);
+      setDraftKey(apiKey);
+    }
+    setOpen(!open);
+  };
+
+  const apply = () => {
+    onApply(draft, draftKey);
+    setOpen(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs text-zinc-500">
+        <Bot size={12} />
+        <span className="font-mono truncate">{answeredBy || settings.provider}</span>
+        <div className="flex-1" />
+        <button onClick={toggle} className={smallButton}>
+          <Settings2 size={12} /> {t('analysisProvider')}
+        </button>
+      </div>
+
+      {open && (
+        <div className="p-3 bg-zinc-50 dark:bg-black/40 rounded-lg border border-zinc-200 dark:border-zinc-800 space-y-2 text-xs">
+          <label className="block space-y-1">
+            <span className="text-zinc-500">{t('analysisProvider')}</span>
+            <select
+              value={draft.provider}
+              onChange={(e) => setDraft({ ...draft, provider: e.target.value as AnalysisProviderId })}
+              className={fieldClass}
+            >
+              {ANALYSIS_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </label>
+          {draft.provider !== 'mock' && (
+            <label className="block space-y-1">
+              <span className="text-zinc-500">{t('analysisModel')}</span>
+              <input
+                value={draft.model}
+                onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                placeholder={provider.defaultModel}
+                className={fieldClass}
+              />
+            </label>
+          )}
+          {draft.provider === 'openai' && (
+            <label className="block space-y-1">
+              <span className="text-zinc-500">{t('analysisEndpoint')}</span>
+              <input
+                value={draft.baseUrl}
+                onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className={fieldClass}
+              />
+            </label>
+          )}
+          {draft.provider !== 'mock' && (
+            <label className="block space-y-1">
+              <span className="text-zinc-500">{t('analysisApiKey')}</span>
+              <input
+                type="password"
+                value={draftKey}
+                onChange={(e) => setDraftKey(e.target.value)}
+                placeholder={draft.provider === 'gemini' ? 'GEMINI_API_KEY' : t('optional')}
+                autoComplete="off"
+                className={fieldClass}
+              />
+              <span className="block text-zinc-500">{t('analysisApiKeyHint')}</span>
+            </label>
+          )}
+          <div className="flex justify-end">
+            <button onClick={apply} className={smallButton}>
+              <RefreshCw size={12} /> {t('analysisApply')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { Database, Download, Trash2, RefreshCw, Search } from 'lucide-react';
+import { CachedCertificate } from '../types';
+import { listCachedCertificates, removeCachedCertificate, clearCache } from '../services/caCacheService';
+import { useLanguage } from '../contexts/LanguageContext';
+
+const downloadPem = (pems: string[], fileName: string) => {
+  const blob = new Blob([pems.map(p => p.trim()).join('\n') + '\n'], { type: 'application/x-pem-file' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// CA certificates remembered from earlier chains; lives in IndexedDB, not localStorage
+export const CaCacheBrowser: React.FC = () => {
+  const { t } = useLanguage();
+  const [entries, setEntries] = useState<CachedCertificate[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+
+  const refresh = () => {
+    listCachedCertificates()
+      .then(list => {
+        setEntries(list);
+        setError(null);
+      })
+      .catch(e => setError(e?.message || String(e)));
+  };
+
+  useEffect(refresh, []);
+
+  const remove = async (fingerprint: string) => {
+    await removeCachedCertificate(fingerprint);
+    refresh();
+  };
+
+  const purge = async () => {
+    if (!window.confirm(t('caCachePurgeConfirm'))) return;
+    await clearCache();
+    refresh();
+  };
+
+  const query = filter.trim().toLowerCase();
+  const shown = (entries || [])
+    .filter(e => !query || e.subject.toLowerCase().includes(query) || e.issuer.toLowerCase().includes(query) || e.fingerprint.startsWith(query))
+    .sort((a, b) => a.subject.localeCompare(b.subject));
+  const now = new Date().toISOString();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Database className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
+        <h4 className="text-sm font-bold text-zinc-700 dark:text-zinc-300">{t('caCacheTitle')}</h4>
+        <span className="text-xs text-zinc-500">({entries?.length ?? '…'})</span>
+        <div className="flex-1" />
+        <button onClick={refresh} title={t('caCacheRefresh')} className="p-1.5 text-zinc-400 hover:text-indigo-500">
+          <RefreshCw size={14} />
+        </button>
+        <button
+          onClick={() => downloadPem(shown.map(e => e.pem), 'cached-cas.pem')}
+          disabled={shown.length === 0}
+          className="flex items-center gap-1.5 px-2 py-1 text-xs bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg hover:border-indigo-500 disabled:opacity-50"
+        >
+          <Download size={12} /> {t('caCacheExport')}
+        </button>
+        <button
+          onClick={purge}
+          disabled={!entries || entries.length === 0}
+          className="flex items-center gap-1.5 px-2 py-1 text-xs bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg hover:border-red-500 hover:text-red-500 disabled:opacity-50"
+        >
+          <Trash2 size={12} /> {t('caCachePurge')}
+        </button>
+      </div>
+      <p className="text-xs text-zinc-500">{t('caCacheDesc')}</p>
+
+      {error ? (
+        <p className="text-sm text-red-500">{t('caCacheUnavailable')}: {error}</p>
+      ) : (
+        <>
+          <div className="flex items-center gap-2 px-2 py-1.5 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg">
+            <Search size={14} className="text-zinc-400" />
+            <input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder={t('trustStoreFilter')}
+              className="flex-1 bg-transparent text-xs focus:outline-none"
+            />
+          </div>
+          {shown.length === 0 ? (
+            <p className="text-center text-sm text-zinc-500">{t('caCacheEmpty')}</p>
+          ) : (
+            <ul className="divide-y divide-zinc-200 dark:divide-zinc-800 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-xl">
+              {shown.map(entry => (
+                <li key={entry.fingerprint} className="flex items-center gap-3 px-4 py-2 text-sm">
+                  <div className="min-w-0 flex-1">
+                    <div className="font-mono text-xs font-bold text-zinc-800 dark:text-zinc-200 truncate">{entry.subject}</div>
+                    <div className="text-[10px] text-zinc-500 font-mono truncate" title={entry.fingerprint}>
+                      {t('issuer')}: {entry.issuer} · {entry.source === 'fetched' ? t('caCacheFetched') : t('caCacheUploaded')} {entry.cachedAt.substring(0, 10)} ·{' '}
+                      <span className={entry.notAfter < now ? 'text-red-500' : ''}>{t('validUntil')} {entry.notAfter.substring(0, 10)}</span>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => downloadPem([entry.pem], `${entry.subject.replace(/[^\w.-]+/g, '_')}.crt`)}
+                    title={t('caCacheExport')}
+                    className="p-1.5 text-zinc-400 hover:text-indigo-500"
+                  >
+                    <Download size={14} />
+                  </button>
+                  <button onClick={() => remove(entry.fingerprint)} title={t('caCacheRemove')} className="p-1.5 text-zinc-400 hover:text-red-500">
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
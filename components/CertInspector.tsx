@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronRight, ChevronDown, Microscope } from 'lucide-react';
+import { Asn1Node, CertificateDetails } from '../types';
+import { inspectCertificate } from '../services/inspectorService';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface CertInspectorProps {
+  pem: string;
+}
+
+const Row = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="grid grid-cols-[9rem_1fr] gap-2 py-1">
+    <span className="text-zinc-500">{label}</span>
+    <span className="font-mono text-zinc-800 dark:text-zinc-200 break-all select-all">{children}</span>
+  </div>
+);
+
+// One DER node; the top two levels start expanded
+const Asn1TreeNode: React.FC<{ node: Asn1Node; depth: number }> = ({ node, depth }) => {
+  const [open, setOpen] = useState(depth < 2);
+  const hasChildren = !!node.children?.length;
+  return (
+    <li>
+      <div
+        className={`flex gap-1.5 items-baseline ${hasChildren ? 'cursor-pointer hover:bg-zinc-100 dark:hover:bg-zinc-800/50' : ''}`}
+        onClick={() => hasChildren && setOpen(!open)}
+      >
+        <span className="w-3 shrink-0 text-zinc-400">
+          {hasChildren && (open ? <ChevronDown size={10} /> : <ChevronRight size={10} />)}
+        </span>
+        <span className="text-zinc-400 shrink-0" title={`header ${node.headerLength}, length ${node.length}`}>{node.offset}</span>
+        <span className="text-indigo-600 dark:text-indigo-400 shrink-0">{node.tag}{node.encapsulated ? ' ⊃' : ''}</span>
+        {node.value !== undefined && <span className="text-zinc-700 dark:text-zinc-300 break-all">{node.value}</span>}
+      </div>
+      {hasChildren && open && (
+        <ul className="pl-4 border-l border-zinc-200 dark:border-zinc-800 ml-1.5">
+          {node.children!.map((child, i) => <Asn1TreeNode key={i} node={child} depth={depth + 1} />)}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+const DetailsView = ({ details }: { details: CertificateDetails }) => {
+  const { t } = useLanguage();
+  const [showAsn1, setShowAsn1] = useState(false);
+  return (
+    <div className="space-y-4 text-xs">
+      <div className="divide-y divide-zinc-100 dark:divide-zinc-800/60">
+        <Row label={t('subject')}>{details.subject}</Row>
+        <Row label={t('issuer')}>{details.issuer}</Row>
+        <Row label={t('validity')}>{details.notBefore.toISOString()} — {details.notAfter.toISOString()}</Row>
+        <Row label={t('serialNumber')}>{details.serialNumber}</Row>
+        <Row label={t('certVersion')}>v{details.version}</Row>
+        <Row label={t('publicKey')}>{details.publicKey}</Row>
+        <Row label={t('signatureAlgorithm')}>{details.signatureAlgorithm}</Row>
+        <Row label="SHA-256">{details.sha256}</Row>
+        <Row label="SHA-1">{details.sha1}</Row>
+        <Row label={t('spkiPin')}>{details.spkiPin}</Row>
+      </div>
+
+      <div>
+        <div className="text-zinc-500 uppercase tracking-wider font-bold mb-1">{t('extensions')} ({details.extensions.length})</div>
+        <ul className="space-y-2">
+          {details.extensions.map((ext, i) => (
+            <li key={i}>
+              <div className="flex items-center gap-2">
+                <span className="font-bold text-zinc-800 dark:text-zinc-200" title={ext.oid}>{ext.name}</span>
+                {ext.critical && (
+                  <span className="px-1.5 py-0.5 rounded text-[10px] border border-yellow-500/30 text-yellow-700 dark:text-yellow-500">{t('critical')}</span>
+                )}
+              </div>
+              <ul className="font-mono text-zinc-600 dark:text-zinc-400 break-all whitespace-pre-wrap">
+                {ext.values.map((value, j) => <li key={j}>{value}</li>)}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <button onClick={() => setShowAsn1(!showAsn1)} className="flex items-center gap-1 text-zinc-500 uppercase tracking-wider font-bold hover:text-indigo-500">
+          {showAsn1 ? <ChevronDown size={12} /> : <ChevronRight size={12} />} {t('asn1Tree')}
+        </button>
+        {showAsn1 && (
+          <ul className="mt-2 font-mono text-[10px] leading-relaxed max-h-[28rem] overflow-auto bg-zinc-50 dark:bg-zinc-950 border border-zinc-200 dark:border-zinc-800 rounded-lg p-2">
+            <Asn1TreeNode node={details.asn1} depth={0} />
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Collapsed to one button until opened; decoding happens only then
+export const CertInspector: React.FC<CertInspectorProps> = ({ pem }) => {
+  const { t } = useLanguage();
+  const [open, setOpen] = useState(false);
+  const result = useMemo(() => {
+    if (!open) return null;
+    try {
+      return { details: inspectCertificate(pem) };
+    } catch (e: any) {
+      return { error: e.message as string };
+    }
+  }, [open, pem]);
+
+  return (
+    <div className="mt-2">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-xs text-indigo-600 dark:text-indigo-400 hover:text-indigo-500"
+      >
+        <Microscope size={12} /> {open ? t('hideDetails') : t('showDetails')}
+      </button>
+      {result && (
+        <div className="mt-2 p-3 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-lg text-left">
+          {result.details ? <DetailsView details={result.details} /> : <p className="text-xs text-red-500">{result.error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,9 @@
 
 import React from 'react';
 import { CertificateInfo } from '../types';
-import { Shield, ShieldAlert, ShieldCheck, Globe, Calendar, Hash, ExternalLink } from 'lucide-react';
+import { Shield, ShieldAlert, ShieldCheck, Globe, Calendar, Hash, ExternalLink, KeyRound, Server } from 'lucide-react';
 import { useLanguage } from '../contexts/LanguageContext';
+import { CertInspector } from './CertInspector';
 
 interface CertViewerProps {
   info: CertificateInfo;
@@ -13,6 +14,49 @@ interface CertViewerProps {
   loadingChain: boolean;
 }
 
+// One labelled list of URIs from AIA or CRL Distribution Points, in certificate order
+const UriList = ({ label, uris, empty }: { label: string; uris: string[]; empty: string }) => (
+  <div>
+    <label className="text-xs text-zinc-500 uppercase tracking-wider font-bold">{label}</label>
+    {uris.length === 0 ? (
+      <p className="text-xs text-zinc-600 dark:text-zinc-400">{empty}</p>
+    ) : (
+      <ol className="text-xs font-mono text-zinc-600 dark:text-zinc-400 break-all space-y-0.5">
+        {uris.map((uri, i) => <li key={i}>{uri}</li>)}
+      </ol>
+    )}
+  </div>
+);
+
+// Every SAN with its form, DNS names first; without DNS or IP SANs no browser accepts the certificate
+const SanList = ({ info }: { info: CertificateInfo }) => {
+  const { t } = useLanguage();
+  const { dns, ip, email, uri } = info.subjectAltNames;
+  const names = [
+    ...dns.map(v => ['DNS', v]),
+    ...ip.map(v => ['IP', v]),
+    ...email.map(v => ['email', v]),
+    ...uri.map(v => ['URI', v]),
+  ];
+  return (
+    <div className="min-w-0">
+      <label className="text-xs text-zinc-500 uppercase tracking-wider font-bold">{t('subjectAltNames')}</label>
+      {names.length === 0 ? (
+        <p className="text-xs text-zinc-600 dark:text-zinc-400">{t('notPresent')}</p>
+      ) : (
+        <ul className="text-xs font-mono text-zinc-700 dark:text-zinc-300 break-all space-y-0.5">
+          {names.map(([form, value], i) => (
+            <li key={i}><span className="text-zinc-400">{form}:</span> {value}</li>
+          ))}
+        </ul>
+      )}
+      {dns.length === 0 && ip.length === 0 && (
+        <p className="text-xs text-yellow-700 dark:text-yellow-400 mt-1">{t('noHostSans')}</p>
+      )}
+    </div>
+  );
+};
+
 export const CertViewer: React.FC<CertViewerProps> = ({ info, isValid, chainLength, keyMatched, onDownloadChain, loadingChain }) => {
   const { t } = useLanguage();
   
@@ -37,6 +81,10 @@ export const CertViewer: React.FC<CertViewerProps> = ({ info, isValid, chainLeng
 
       <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="space-y-4">
+          <div className="flex items-start gap-3">
+            <Server className="w-4 h-4 text-zinc-400 dark:text-zinc-500 mt-1" />
+            <SanList info={info} />
+          </div>
           <div className="flex items-start gap-3">
             <Globe className="w-4 h-4 text-zinc-400 dark:text-zinc-500 mt-1" />
             <div>
@@ -51,6 +99,15 @@ export const CertViewer: React.FC<CertViewerProps> = ({ info, isValid, chainLeng
               <p className="text-sm text-zinc-700 dark:text-zinc-300">{info.issuer}</p>
             </div>
           </div>
+          <div className="flex items-start gap-3">
+            <KeyRound className="w-4 h-4 text-zinc-400 dark:text-zinc-500 mt-1" />
+            <div>
+              <label className="text-xs text-zinc-500 uppercase tracking-wider font-bold">{t('publicKey')}</label>
+              <p className="text-sm text-zinc-700 dark:text-zinc-300">
+                {info.keyAlgorithm}{info.curve ? ` ${info.curve}` : ''} &middot; {info.keySize} {t('bits')}
+              </p>
+            </div>
+          </div>
         </div>
 
         <div className="space-y-4">
@@ -65,15 +122,20 @@ export const CertViewer: React.FC<CertViewerProps> = ({ info, isValid, chainLeng
           </div>
           <div className="flex items-start gap-3">
             <ExternalLink className="w-4 h-4 text-zinc-400 dark:text-zinc-500 mt-1" />
-            <div>
-              <label className="text-xs text-zinc-500 uppercase tracking-wider font-bold">{t('aiaUrl')}</label>
-              <p className="text-xs font-mono text-zinc-600 dark:text-zinc-400 break-all">{info.aiaUrl || t('notPresent')}</p>
+            <div className="min-w-0 space-y-2">
+              <UriList label={t('caIssuers')} uris={info.caIssuers} empty={t('notPresent')} />
+              <UriList label={t('ocspResponders')} uris={info.ocspUrls} empty={t('notPresent')} />
+              <UriList label={t('crlDistributionPoints')} uris={info.crlUrls} empty={t('notPresent')} />
             </div>
           </div>
         </div>
       </div>
 
-      {info.aiaUrl && (
+      <div className="px-6 pb-4">
+        <CertInspector pem={info.raw} />
+      </div>
+
+      {info.caIssuers.length > 0 && (
         <div className="p-4 border-t border-zinc-200 dark:border-zinc-800 bg-zinc-50/50 dark:bg-zinc-900/30 flex items-center justify-between">
             <span className="text-xs text-zinc-500 dark:text-zinc-400">
                 {t('chainLength')}: <strong className="text-zinc-900 dark:text-white">{chainLength}</strong>
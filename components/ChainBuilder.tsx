@@ -1,22 +1,52 @@
 
 import React from 'react';
-import { CertificateInfo, ChainItem } from '../types';
+import { CertificateInfo, ChainItem, PathProblem, PathValidation, RevocationState, RevocationStatus, SniffedInput, TrustStoreEntry } from '../types';
 import { FileUpload } from './FileUpload';
-import { ArrowDown, CheckCircle2, AlertCircle, Link, Trash2, ShieldCheck, Globe } from 'lucide-react';
+import { ArrowDown, CheckCircle2, AlertCircle, AlertTriangle, Link, Trash2, ShieldCheck, Globe, Anchor } from 'lucide-react';
 import { useLanguage } from '../contexts/LanguageContext';
+import { TranslationKey } from '../locales';
+import { CertInspector } from './CertInspector';
 
 interface ChainBuilderProps {
   leafCert: CertificateInfo;
   chain: ChainItem[];
-  onAddCa: (pem: string) => void;
+  validation?: PathValidation; // leaf first, then chain
+  anchor?: TrustStoreEntry | null; // trust store anchor the chain leads to
+  revocation?: (RevocationStatus | null | undefined)[]; // per link: the certificate above, checked against the one below
+  onAddCa: (input: SniffedInput) => void;
   onRemoveCa: (index: number) => void;
 }
 
-export const ChainBuilder: React.FC<ChainBuilderProps> = ({ leafCert, chain, onAddCa, onRemoveCa }) => {
+// Problems with a certificate itself (validity, critical extensions, name constraints)
+const CertificateProblems = ({ problems }: { problems?: PathProblem[] }) =>
+  problems && problems.length > 0 ? (
+    <ul className="mt-2 space-y-0.5 text-xs text-yellow-700 dark:text-yellow-400">
+      {problems.map((p, i) => (
+        <li key={i} className="flex items-start gap-1"><AlertTriangle size={12} className="mt-0.5 shrink-0" /> {p.message}</li>
+      ))}
+    </ul>
+  ) : null;
+
+const REVOCATION_LABELS: Record<RevocationState, TranslationKey> = {
+  good: 'revocationGood',
+  revoked: 'revocationRevoked',
+  unknown: 'revocationUnknown',
+  error: 'revocationError',
+};
+
+const REVOCATION_STYLES: Record<RevocationState, string> = {
+  good: 'text-emerald-600 dark:text-emerald-400 border-emerald-500/30',
+  revoked: 'text-red-600 dark:text-red-400 border-red-500/30',
+  unknown: 'text-yellow-700 dark:text-yellow-500 border-yellow-500/30',
+  error: 'text-yellow-700 dark:text-yellow-500 border-yellow-500/30',
+};
+
+export const ChainBuilder: React.FC<ChainBuilderProps> = ({ leafCert, chain, validation, anchor, revocation, onAddCa, onRemoveCa }) => {
   const { t } = useLanguage();
   // Determine what the next expected issuer is
   const lastCert = chain.length > 0 ? chain[chain.length - 1].info : leafCert;
-  const isRootReached = chain.length > 0 && chain[chain.length - 1].isRoot;
+  // A trust anchor ends the chain even when it is an intermediate or is not part of the chain
+  const isRootReached = (chain.length > 0 && chain[chain.length - 1].isRoot) || !!anchor;
 
   return (
     <div className="space-y-8 max-w-3xl mx-auto pb-12">
@@ -42,33 +72,59 @@ export const ChainBuilder: React.FC<ChainBuilderProps> = ({ leafCert, chain, onA
                <span>{t('issuer')}: <span className="text-zinc-800 dark:text-zinc-300">{leafCert.issuer}</span></span>
                <span>Serial: {leafCert.serialNumber}</span>
             </div>
+            {leafCert.subjectAltNames.dns.length + leafCert.subjectAltNames.ip.length > 0 && (
+              <div className="text-xs text-zinc-500 mt-1 font-mono break-all">
+                SAN: {[...leafCert.subjectAltNames.dns, ...leafCert.subjectAltNames.ip].join(', ')}
+              </div>
+            )}
+            <CertificateProblems problems={validation?.certificates[0]} />
+            <CertInspector pem={leafCert.raw} />
           </div>
         </div>
 
         {/* Chain Links */}
-        {chain.map((item, index) => (
+        {chain.map((item, index) => {
+          // Problems with this certificate issuing the one above it
+          const linkProblems = validation ? validation.links[index] || [] : item.signsChild ? [] : null;
+          const revocationStatus = revocation?.[index];
+          return (
           <div key={item.id} className="flex flex-col items-center animate-fade-in">
-             <div className="h-8 w-0.5 bg-zinc-300 dark:bg-zinc-700 my-1 relative">
-                {!item.signsChild && (
-                    <div className="absolute top-1/2 -translate-y-1/2 left-2 w-max flex items-center gap-1 text-red-500 dark:text-red-400 text-xs bg-white dark:bg-zinc-950 border border-red-500/30 px-2 py-1 rounded z-20">
-                        <AlertCircle size={12} /> {t('brokenLink')}
-                    </div>
-                )}
+             <div className={`${(linkProblems && linkProblems.length > 0) || revocationStatus ? 'h-auto min-h-8' : 'h-8'} w-0.5 bg-zinc-300 dark:bg-zinc-700 my-1 relative flex items-center`}>
+                <div className="relative left-2 w-max max-w-md flex flex-col gap-1 z-20">
+                    {(!linkProblems || linkProblems.length > 0) && (
+                        <div className="flex flex-col gap-0.5 text-red-500 dark:text-red-400 text-xs bg-white dark:bg-zinc-950 border border-red-500/30 px-2 py-1 rounded">
+                            <span className="flex items-center gap-1 font-medium"><AlertCircle size={12} /> {t('brokenLink')}</span>
+                            {linkProblems?.map((p, i) => <span key={i} title={p.code}>{p.message}</span>)}
+                        </div>
+                    )}
+                    {revocationStatus && (
+                        <div className={`flex flex-col gap-0.5 text-xs bg-white dark:bg-zinc-950 border px-2 py-1 rounded ${REVOCATION_STYLES[revocationStatus.state]}`}>
+                            <span className="font-medium">
+                                {t(REVOCATION_LABELS[revocationStatus.state])}{revocationStatus.method && ` · ${revocationStatus.method.toUpperCase()}`}
+                            </span>
+                            <span className="break-all" title={revocationStatus.source}>{revocationStatus.message}</span>
+                        </div>
+                    )}
+                </div>
              </div>
-             <div className={`w-full relative z-10 bg-white dark:bg-zinc-900 border p-4 rounded-xl flex justify-between items-center group
+             <div className={`w-full relative z-10 bg-white dark:bg-zinc-900 border p-4 rounded-xl flex justify-between items-start group
                 ${item.isRoot ? 'border-yellow-500/50 shadow-[0_0_15px_rgba(234,179,8,0.1)]' : 'border-zinc-200 dark:border-zinc-700'}`}>
                 
-                <div className="ml-2">
+                <div className="ml-2 min-w-0 flex-1">
                     <div className="flex items-center gap-2 mb-1">
                         {item.isRoot ? <ShieldCheck className="w-4 h-4 text-yellow-600 dark:text-yellow-500" /> : <Link className="w-4 h-4 text-zinc-400 dark:text-zinc-500" />}
                         <span className={`font-mono text-sm font-bold ${item.isRoot ? 'text-yellow-700 dark:text-yellow-100' : 'text-zinc-800 dark:text-zinc-200'}`}>
                             {item.info.commonName}
                         </span>
                         {item.isRoot && <span className="text-[10px] bg-yellow-500/20 text-yellow-600 dark:text-yellow-500 px-1.5 rounded uppercase tracking-wider font-bold">{t('rootCa')}</span>}
+                        {item.source === 'store' && <span className="text-[10px] bg-indigo-500/10 text-indigo-600 dark:text-indigo-400 px-1.5 rounded uppercase tracking-wider font-bold">{t('fromTrustStore')}</span>}
+                        {item.source === 'cache' && <span className="text-[10px] bg-zinc-500/10 text-zinc-600 dark:text-zinc-400 px-1.5 rounded uppercase tracking-wider font-bold">{t('fromCache')}</span>}
                     </div>
                     <div className="text-xs text-zinc-500">
                         {t('issuer')}: <span className="text-zinc-700 dark:text-zinc-300">{item.info.issuer}</span>
                     </div>
+                    <CertificateProblems problems={validation?.certificates[index + 1]} />
+                    <CertInspector pem={item.pem} />
                 </div>
 
                 <button 
@@ -79,7 +135,8 @@ export const ChainBuilder: React.FC<ChainBuilderProps> = ({ leafCert, chain, onA
                 </button>
              </div>
           </div>
-        ))}
+          );
+        })}
 
         {/* Drop Zone for Next Cert */}
         {!isRootReached && (
@@ -97,8 +154,8 @@ export const ChainBuilder: React.FC<ChainBuilderProps> = ({ leafCert, chain, onA
                         <FileUpload 
                             key={chain.length}
                             label={t('selectCertOrBundle')}
-                            accept=".crt,.pem,.cer,.bundle"
-                            onFileSelect={(content) => onAddCa(content)}
+                            accept=".crt,.pem,.cer,.der,.bundle,.p7b,.p7c"
+                            onFileSelect={onAddCa}
                             icon={Link}
                         />
                     </div>
@@ -112,10 +169,21 @@ export const ChainBuilder: React.FC<ChainBuilderProps> = ({ leafCert, chain, onA
                 <div className="h-8 w-0.5 bg-zinc-300 dark:bg-zinc-700"></div>
                 
                 <div className="relative z-20 -mt-1">
+                    {validation && !validation.valid ? (
+                        <div className="text-red-600 dark:text-red-400 px-6 py-2 rounded-full border border-red-500/30 flex items-center gap-2 shadow-lg shadow-red-500/10 backdrop-blur-sm bg-white/50 dark:bg-zinc-900/80">
+                            <AlertCircle className="w-5 h-5" />
+                            <span className="font-bold text-sm tracking-tight">{t('chainInvalid')}</span>
+                        </div>
+                    ) : (
                     <div className="bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 px-6 py-2 rounded-full border border-emerald-500/30 flex items-center gap-2 shadow-lg shadow-emerald-500/10 backdrop-blur-sm bg-white/50 dark:bg-zinc-900/80">
                         <CheckCircle2 className="w-5 h-5" />
                         <span className="font-bold text-sm tracking-tight">{t('chainComplete')}</span>
                     </div>
+                    )}
+                </div>
+                <div className={`mt-3 flex items-center gap-1.5 text-xs ${anchor ? 'text-emerald-600 dark:text-emerald-400' : 'text-yellow-700 dark:text-yellow-500'}`}>
+                    {anchor ? <Anchor size={12} /> : <AlertTriangle size={12} />}
+                    {anchor ? <span>{t('anchoredAt')} <span className="font-mono">{anchor.subject}</span></span> : t('unanchored')}
                 </div>
              </div>
         )}
@@ -0,0 +1,139 @@
+import React from 'react';
+import { Server, Plus, Trash2, Lock, Fingerprint } from 'lucide-react';
+import { DistributionTarget, TransferProtocol } from '../types';
+import { TRANSFER_PROTOCOLS, createTarget } from '../services/distributionService';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface DistributionTargetsProps {
+  targets: DistributionTarget[];
+  selectedId: string | null;
+  password: string;
+  onTargetsChange: (targets: DistributionTarget[]) => void;
+  onSelect: (id: string | null) => void;
+  onPasswordChange: (password: string) => void;
+}
+
+const inputClass = "px-2 py-1.5 text-xs font-mono bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg focus:outline-none focus:border-emerald-500 min-w-0";
+
+// Saved upload destinations, edited in place. The password is per upload and never saved.
+export const DistributionTargets: React.FC<DistributionTargetsProps> = ({ targets, selectedId, password, onTargetsChange, onSelect, onPasswordChange }) => {
+  const { t } = useLanguage();
+  const target = targets.find(tg => tg.id === selectedId) || null;
+  const hasLogin = !!target && TRANSFER_PROTOCOLS.find(p => p.id === target.protocol)!.hasLogin;
+
+  const update = (changes: Partial<DistributionTarget>) => {
+    if (!target) return;
+    onTargetsChange(targets.map(tg => tg.id === target.id ? { ...tg, ...changes } : tg));
+  };
+
+  const addTarget = () => {
+    const created = createTarget();
+    onTargetsChange([...targets, created]);
+    onSelect(created.id);
+  };
+
+  const removeTarget = () => {
+    if (!target) return;
+    const rest = targets.filter(tg => tg.id !== target.id);
+    onTargetsChange(rest);
+    onSelect(rest[0]?.id || null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+        <Server className="w-4 h-4 text-emerald-600 dark:text-emerald-500" />
+        <span className="shrink-0">{t('uploadTarget')}:</span>
+        <select
+          value={selectedId || ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          className={`${inputClass} flex-1 text-sm font-sans`}
+        >
+          {targets.length === 0 && <option value="">{t('noTargets')}</option>}
+          {targets.map(tg => <option key={tg.id} value={tg.id}>{tg.name}</option>)}
+        </select>
+        <button onClick={addTarget} title={t('addTarget')} className="p-1.5 text-zinc-400 hover:text-emerald-600 dark:hover:text-emerald-400">
+          <Plus size={16} />
+        </button>
+        {target && (
+          <button onClick={removeTarget} title={t('removeTarget')} className="p-1.5 text-zinc-400 hover:text-red-500">
+            <Trash2 size={16} />
+          </button>
+        )}
+      </div>
+
+      {target && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <input
+              type="text"
+              value={target.name}
+              onChange={(e) => update({ name: e.target.value })}
+              placeholder={t('targetName')}
+              className={`${inputClass} font-sans`}
+            />
+            <select
+              value={target.protocol}
+              onChange={(e) => update({ protocol: e.target.value as TransferProtocol, port: undefined })}
+              className={inputClass}
+            >
+              {TRANSFER_PROTOCOLS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+            <input
+              type="text"
+              value={target.host}
+              onChange={(e) => update({ host: e.target.value.trim() })}
+              placeholder={t('host')}
+              className={inputClass}
+            />
+            <input
+              type="number"
+              value={target.port ?? ''}
+              onChange={(e) => update({ port: e.target.value ? Number(e.target.value) : undefined })}
+              placeholder={t('port')}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={target.path}
+              onChange={(e) => update({ path: e.target.value.trim() })}
+              placeholder={t('remotePath')}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={target.username}
+              onChange={(e) => update({ username: e.target.value.trim() })}
+              placeholder={t('username')}
+              disabled={!hasLogin}
+              className={`${inputClass} disabled:opacity-50`}
+            />
+            <div className="relative col-span-2">
+              <Lock className="w-3 h-3 text-zinc-400 absolute left-2 top-1/2 -translate-y-1/2" />
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => onPasswordChange(e.target.value)}
+                placeholder={t('passwordNotSaved')}
+                disabled={!hasLogin}
+                className={`${inputClass} w-full pl-6 disabled:opacity-50`}
+              />
+            </div>
+          </div>
+          {target.protocol === 'sftp' && (
+            <div className="relative">
+              <Fingerprint className="w-3 h-3 text-zinc-400 absolute left-2 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={target.hostKeyFingerprint || ''}
+                onChange={(e) => update({ hostKeyFingerprint: e.target.value.trim() || undefined })}
+                placeholder={t('hostKeyFingerprint')}
+                className={`${inputClass} w-full pl-6`}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { Network, Trash2 } from 'lucide-react';
+import { FetchLogEntry, FetchPath, FetchRelaySettings } from '../types';
+import { clearFetchLog, getFetchLog, relayUrlProblem, subscribeFetchLog } from '../services/fetchRelayService';
+import { COMPANION_URL } from '../services/distributionService';
+import { useLanguage } from '../contexts/LanguageContext';
+import { TranslationKey } from '../locales';
+
+interface FetchRelayPanelProps {
+  settings: FetchRelaySettings;
+  onChange: (settings: FetchRelaySettings) => void;
+}
+
+const PATH_LABELS: Record<FetchPath, TranslationKey> = {
+  direct: 'fetchPathDirect',
+  relay: 'fetchPathRelay',
+  blocked: 'fetchPathBlocked',
+  failed: 'fetchPathFailed',
+};
+
+const PATH_STYLES: Record<FetchPath, string> = {
+  direct: 'text-emerald-600 dark:text-emerald-400',
+  relay: 'text-indigo-600 dark:text-indigo-400',
+  blocked: 'text-yellow-700 dark:text-yellow-500',
+  failed: 'text-red-500',
+};
+
+const inputClass = "w-full px-2 py-1.5 text-xs font-mono bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg focus:outline-none focus:border-indigo-500";
+
+// Where AIA, OCSP and CRL downloads may go, and the path each one took
+export const FetchRelayPanel: React.FC<FetchRelayPanelProps> = ({ settings, onChange }) => {
+  const { t } = useLanguage();
+  const [hostsText, setHostsText] = useState(settings.allowedHosts.join('\n'));
+  const [log, setLog] = useState<FetchLogEntry[]>(getFetchLog);
+
+  useEffect(() => subscribeFetchLog(setLog), []);
+
+  const commitHosts = () => {
+    const allowedHosts = hostsText.split(/[\s,]+/).map(h => h.trim().toLowerCase()).filter(Boolean);
+    setHostsText(allowedHosts.join('\n'));
+    onChange({ ...settings, allowedHosts });
+  };
+
+  const problem = relayUrlProblem(settings.relayUrl);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Network className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
+        <h4 className="text-sm font-bold text-zinc-700 dark:text-zinc-300">{t('fetchRelayTitle')}</h4>
+      </div>
+      <p className="text-xs text-zinc-500">{t('fetchRelayDesc')}</p>
+
+      <div className="space-y-1">
+        <label className="text-xs font-medium text-zinc-600 dark:text-zinc-400">{t('fetchRelayUrl')}</label>
+        <div className="flex gap-2">
+          <input
+            value={settings.relayUrl}
+            onChange={(e) => onChange({ ...settings, relayUrl: e.target.value.trim() })}
+            placeholder={t('fetchRelayNone')}
+            className={inputClass}
+          />
+          <button
+            onClick={() => onChange({ ...settings, relayUrl: `${COMPANION_URL}/fetch?url=` })}
+            className="shrink-0 px-2 py-1 text-xs bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg hover:border-indigo-500"
+          >
+            {t('fetchRelayUseCompanion')}
+          </button>
+        </div>
+        {problem && <p className="text-xs text-red-500">{problem}</p>}
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs font-medium text-zinc-600 dark:text-zinc-400">{t('fetchAllowedHosts')}</label>
+        <textarea
+          value={hostsText}
+          onChange={(e) => setHostsText(e.target.value)}
+          onBlur={commitHosts}
+          rows={3}
+          placeholder="pki.example.com&#10;*.corp.example"
+          className={inputClass}
+        />
+        <p className="text-[10px] text-zinc-500">{t('fetchAllowedHostsHint')}</p>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center">
+          <span className="text-xs font-medium text-zinc-600 dark:text-zinc-400 flex-1">{t('fetchLog')}</span>
+          {log.length > 0 && (
+            <button onClick={clearFetchLog} title={t('fetchLogClear')} className="p-1 text-zinc-400 hover:text-red-500">
+              <Trash2 size={12} />
+            </button>
+          )}
+        </div>
+        {log.length === 0 ? (
+          <p className="text-xs text-zinc-500">{t('fetchLogEmpty')}</p>
+        ) : (
+          <ul className="max-h-64 overflow-y-auto divide-y divide-zinc-200 dark:divide-zinc-800 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-xl">
+            {log.map((entry, i) => (
+              <li key={`${entry.at}-${i}`} className="px-3 py-1.5 text-[10px] font-mono flex gap-2" title={entry.detail}>
+                <span className="text-zinc-400 shrink-0">{entry.at.substring(11, 19)}</span>
+                <span className={`shrink-0 w-20 font-bold ${PATH_STYLES[entry.path]}`}>{t(PATH_LABELS[entry.path])}</span>
+                <span className="truncate text-zinc-700 dark:text-zinc-300">{entry.url}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
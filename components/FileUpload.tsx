@@ -2,11 +2,13 @@
 import React, { useCallback, useState, useEffect, useRef } from 'react';
 import { Upload, FileCheck, Clipboard, X, ArrowRight } from 'lucide-react';
 import { useLanguage } from '../contexts/LanguageContext';
+import { sniffContent } from '../services/cryptoService';
+import { SniffedInput } from '../types';
 
 interface FileUploadProps {
   label: string;
   accept: string;
-  onFileSelect: (content: string, filename: string) => void;
+  onFileSelect: (input: SniffedInput) => void;
   icon?: React.ElementType;
   fileContent?: string | null;
   onClear?: () => void;
@@ -28,13 +30,14 @@ export const FileUpload: React.FC<FileUploadProps> = ({ label, accept, onFileSel
     }
   }, [fileContent]);
 
+  // Read raw bytes: DER, PKCS#7, PKCS#12 and tar would be mangled by readAsText
   const processFile = (file: File) => {
     const reader = new FileReader();
     reader.onload = (e) => {
-      const content = e.target?.result as string;
-      onFileSelect(content, file.name);
+      const bytes = new Uint8Array(e.target?.result as ArrayBuffer);
+      onFileSelect(sniffContent(bytes, file.name));
     };
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
   };
 
   const handleDrop = useCallback((e: React.DragEvent) => {
@@ -58,7 +61,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ label, accept, onFileSel
 
   const handleLoadText = () => {
       if (!pasteContent.trim()) return;
-      onFileSelect(pasteContent, 'manual-entry.pem');
+      onFileSelect(sniffContent(new TextEncoder().encode(pasteContent), 'manual-entry.pem'));
   };
 
   const triggerFileSelect = () => {
@@ -0,0 +1,31 @@
+import React from 'react';
+import { XCircle, Info, AlertTriangle } from 'lucide-react';
+import { ValidationFinding } from '../types';
+
+const ICONS = { error: XCircle, warning: AlertTriangle, info: Info };
+
+const COLORS = {
+    error: 'text-red-600 dark:text-red-400',
+    warning: 'text-yellow-600 dark:text-yellow-400',
+    info: 'text-zinc-500 dark:text-zinc-400',
+};
+
+// Findings with their code, severity and (for archives) member
+export const FindingList: React.FC<{ findings: ValidationFinding[] }> = ({ findings }) => (
+    <div className="space-y-2 text-xs">
+        {findings.map((finding, i) => {
+            const FindingIcon = ICONS[finding.severity];
+            const color = COLORS[finding.severity];
+            return (
+                <div key={i} className="flex items-start gap-2">
+                    <FindingIcon className={`w-4 h-4 mt-0.5 shrink-0 ${color}`} />
+                    <div className="min-w-0">
+                        <span className={`font-mono font-medium ${color}`}>{finding.code}</span>
+                        {finding.member && <span className="font-mono text-zinc-500 break-all"> · {finding.member}</span>}
+                        <p className="text-zinc-600 dark:text-zinc-400">{finding.message}</p>
+                    </div>
+                </div>
+            );
+        })}
+    </div>
+);
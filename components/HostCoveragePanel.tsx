@@ -0,0 +1,49 @@
+import React from 'react';
+import { Server, CheckCircle2, XCircle } from 'lucide-react';
+import { HostnameCoverage } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface HostCoveragePanelProps {
+  hosts: string; // as typed
+  onChange: (hosts: string) => void;
+  coverage: HostnameCoverage[];
+}
+
+// The controller names the trustpoint will serve, each checked against the leaf's SANs
+export const HostCoveragePanel: React.FC<HostCoveragePanelProps> = ({ hosts, onChange, coverage }) => {
+  const { t } = useLanguage();
+
+  return (
+    <div className="p-4 bg-white dark:bg-zinc-900/50 rounded-xl border border-zinc-200 dark:border-zinc-800 shadow-sm space-y-2">
+      <label className="text-xs text-zinc-500 uppercase font-bold flex items-center gap-1.5">
+        <Server size={12} /> {t('controllerHosts')}
+      </label>
+      <textarea
+        value={hosts}
+        onChange={(e) => onChange(e.target.value)}
+        rows={2}
+        placeholder="wlc.example.com 10.0.0.1"
+        className="w-full px-2 py-1.5 text-xs font-mono bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg focus:outline-none focus:border-indigo-500"
+      />
+      {coverage.length === 0 ? (
+        <p className="text-xs text-zinc-500">{t('controllerHostsHint')}</p>
+      ) : (
+        <ul className="space-y-1">
+          {coverage.map(c => (
+            <li key={c.host} className="flex items-start gap-1.5 text-xs">
+              {c.covered
+                ? <CheckCircle2 size={12} className="mt-0.5 shrink-0 text-emerald-500" />
+                : <XCircle size={12} className="mt-0.5 shrink-0 text-red-500" />}
+              <span className="min-w-0">
+                <span className="font-mono text-zinc-800 dark:text-zinc-200 break-all">{c.host}</span>
+                <span className={`block ${c.covered ? 'text-zinc-500' : 'text-red-600 dark:text-red-400'}`}>
+                  {c.covered ? `${t('coveredBy')} ${c.matchedBy}` : c.reason}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
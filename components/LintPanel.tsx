@@ -0,0 +1,133 @@
+import React, { useRef, useState } from 'react';
+import { ListChecks, Settings2, Download, FolderOpen, RotateCcw, CheckCircle } from 'lucide-react';
+import { FindingSeverity, LintFinding, LintRuleConfig, LintRulePack } from '../types';
+import { LINT_RULES, DEFAULT_RULE_PACK, effectiveRule, parseRulePack, serializeRulePack } from '../services/lintService';
+import { useLanguage } from '../contexts/LanguageContext';
+import { FindingList } from './FindingList';
+
+interface LintPanelProps {
+  findings: LintFinding[];
+  pack: LintRulePack;
+  onPackChange: (pack: LintRulePack) => void;
+}
+
+const smallButton = "flex items-center gap-1.5 px-2 py-1 text-xs bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg hover:border-indigo-500";
+const fieldClass = "px-1.5 py-0.5 text-xs bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded focus:outline-none focus:border-indigo-500";
+
+// Offline lint findings for the leaf and chain, and the team rule pack behind them
+export const LintPanel: React.FC<LintPanelProps> = ({ findings, pack, onPackChange }) => {
+  const { t } = useLanguage();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [showRules, setShowRules] = useState(false);
+
+  const blocking = findings.filter(f => f.severity === 'error').length;
+
+  const updateRule = (id: string, change: Partial<LintRuleConfig>) =>
+    onPackChange({ ...pack, rules: { ...pack.rules, [id]: { ...pack.rules[id], ...change } } });
+
+  const exportPack = () => {
+    const blob = new Blob([serializeRulePack(pack)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${pack.name.replace(/[^\w.-]+/g, '_') || 'lint-rules'}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importPack = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onPackChange(parseRulePack(await file.text()));
+    } catch (err: any) {
+      alert(`${t('lintPackInvalid')}: ${err.message}`);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-zinc-900/30 border border-zinc-200 dark:border-zinc-800 p-5 rounded-xl space-y-3 shadow-sm">
+      <div className="flex items-center gap-2">
+        <ListChecks className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
+        <span className="text-sm font-bold text-indigo-600 dark:text-indigo-400">{t('lintTitle')}</span>
+        <span className="text-xs text-zinc-500">({pack.name})</span>
+        <div className="flex-1" />
+        <button onClick={() => setShowRules(!showRules)} className={smallButton}>
+          <Settings2 size={12} /> {t('lintRules')}
+        </button>
+      </div>
+
+      {findings.length === 0 ? (
+        <p className="flex items-center gap-1.5 text-xs text-emerald-600 dark:text-emerald-400">
+          <CheckCircle size={14} /> {t('lintClean')}
+        </p>
+      ) : (
+        <FindingList findings={findings} />
+      )}
+      {blocking > 0 && <p className="text-xs font-medium text-red-600 dark:text-red-400">{t('lintBlocking')}</p>}
+
+      {showRules && (
+        <div className="border-t border-zinc-200 dark:border-zinc-800 pt-3 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={pack.name}
+              onChange={(e) => onPackChange({ ...pack, name: e.target.value })}
+              className={`${fieldClass} flex-1 min-w-[8rem]`}
+              title={t('lintPackName')}
+            />
+            <button onClick={exportPack} className={smallButton}><Download size={12} /> {t('lintExport')}</button>
+            <button onClick={() => inputRef.current?.click()} className={smallButton}><FolderOpen size={12} /> {t('lintImport')}</button>
+            <input ref={inputRef} type="file" accept=".json" className="hidden" onChange={importPack} />
+            <button
+              onClick={() => window.confirm(t('lintResetConfirm')) && onPackChange(DEFAULT_RULE_PACK)}
+              className={smallButton}
+            >
+              <RotateCcw size={12} /> {t('lintReset')}
+            </button>
+          </div>
+
+          <ul className="divide-y divide-zinc-100 dark:divide-zinc-800/60">
+            {LINT_RULES.map(rule => {
+              const config = effectiveRule(rule, pack);
+              return (
+                <li key={rule.id} className="flex flex-wrap items-center gap-2 py-1.5 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={config.enabled}
+                    onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                    className="accent-indigo-600"
+                  />
+                  <div className={`min-w-0 flex-1 ${config.enabled ? '' : 'opacity-50'}`}>
+                    <span className="font-mono font-medium text-zinc-800 dark:text-zinc-200">{rule.id}</span>
+                    <span className="text-zinc-500"> · {rule.description}{rule.scope === 'chain' ? ` (${t('lintWholeChain')})` : ''}</span>
+                  </div>
+                  {Object.entries(config.params).map(([name, value]) => (
+                    <label key={name} className="flex items-center gap-1 text-zinc-500 font-mono">
+                      {name}
+                      <input
+                        type="number"
+                        value={value}
+                        onChange={(e) => e.target.value !== '' && updateRule(rule.id, { params: { ...config.params, [name]: Number(e.target.value) } })}
+                        className={`${fieldClass} w-16`}
+                      />
+                    </label>
+                  ))}
+                  <select
+                    value={config.severity}
+                    onChange={(e) => updateRule(rule.id, { severity: e.target.value as FindingSeverity })}
+                    className={fieldClass}
+                  >
+                    <option value="error">error</option>
+                    <option value="warning">warning</option>
+                    <option value="info">info</option>
+                  </select>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
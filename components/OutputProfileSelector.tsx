@@ -0,0 +1,85 @@
+import React from 'react';
+import { Settings2 } from 'lucide-react';
+import { OutputProfile, KeyFormat } from '../types';
+import { OUTPUT_PROFILES, getOutputProfile } from '../services/packageService';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface OutputProfileSelectorProps {
+  profile: OutputProfile;
+  onChange: (profile: OutputProfile) => void;
+}
+
+const selectClass = "px-2 py-1.5 text-xs bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg focus:outline-none focus:border-emerald-500";
+
+// Picks a built-in package layout and lets its options be overridden
+export const OutputProfileSelector: React.FC<OutputProfileSelectorProps> = ({ profile, onChange }) => {
+  const { t } = useLanguage();
+  const update = (changes: Partial<OutputProfile>) => onChange({ ...profile, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+        <Settings2 className="w-4 h-4 text-emerald-600 dark:text-emerald-500" />
+        <span className="shrink-0">{t('outputProfile')}:</span>
+        <select
+          value={profile.id}
+          onChange={(e) => onChange(getOutputProfile(e.target.value))}
+          className={`${selectClass} flex-1 text-sm`}
+        >
+          {OUTPUT_PROFILES.map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+        <label className="flex items-center gap-2 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={profile.includeRoot}
+            onChange={(e) => update({ includeRoot: e.target.checked })}
+            className="accent-emerald-600"
+          />
+          {t('includeRoot')}
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={!!profile.gzip}
+            onChange={(e) => update({ gzip: e.target.checked })}
+            className="accent-emerald-600"
+          />
+          {t('gzipPackage')}
+        </label>
+        <select
+          value={profile.chainOrder}
+          onChange={(e) => update({ chainOrder: e.target.value as OutputProfile['chainOrder'] })}
+          className={selectClass}
+          title={t('chainOrder')}
+        >
+          <option value="leaf-first">{t('chainLeafFirst')}</option>
+          <option value="root-first">{t('chainRootFirst')}</option>
+        </select>
+        <select
+          value={profile.lineEnding}
+          onChange={(e) => update({ lineEnding: e.target.value as OutputProfile['lineEnding'] })}
+          className={selectClass}
+          title={t('lineEndings')}
+        >
+          <option value="lf">LF</option>
+          <option value="crlf">CRLF</option>
+        </select>
+        <select
+          value={profile.keyFormat}
+          onChange={(e) => update({ keyFormat: e.target.value as KeyFormat })}
+          className={selectClass}
+          title={t('keyFormat')}
+        >
+          <option value="original">{t('keyFormatOriginal')}</option>
+          <option value="pkcs1">PKCS#1 / SEC1</option>
+          <option value="pkcs8">PKCS#8</option>
+        </select>
+      </div>
+    </div>
+  );
+};
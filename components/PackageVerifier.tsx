@@ -1,27 +1,53 @@
 
 import React from 'react';
-import { CheckCircle, XCircle, AlertCircle, FileKey, Shield, Layers, Calendar } from 'lucide-react';
-import { CertificateInfo } from '../types';
+import { CheckCircle, XCircle, AlertCircle, FileKey, Shield, Layers, Calendar, Package, FileCheck } from 'lucide-react';
+import { CertificateInfo, ManifestCheck, TrustedSigner, ValidationFinding } from '../types';
+import { KeyEncryptionInfo } from '../services/cryptoService';
 import { useLanguage } from '../contexts/LanguageContext';
+import { PassphrasePrompt } from './PassphrasePrompt';
+import { FindingList } from './FindingList';
 
 interface ValidationResult {
     hasCert: boolean;
     hasKey: boolean;
     hasCa: boolean;
     keyPairMatch: boolean | null;
+    keyEncryption?: KeyEncryptionInfo;
+    keyLocked?: boolean; // encrypted key not yet unlocked
     chainComplete: boolean | null;
+    chainProblem?: string; // first RFC 5280 path validation failure
     validityStatus: 'valid' | 'expired' | 'not_yet_valid' | 'unknown';
     certInfo?: CertificateInfo;
+    manifest?: ManifestCheck;
+    findings: ValidationFinding[];
     details: string[];
 }
 
 interface PackageVerifierProps {
     fileName: string;
     result: ValidationResult;
+    onUnlockKey?: (passphrase: string) => Promise<void>;
+    onTrustSigner?: (signer: TrustedSigner) => void;
 }
 
-export const PackageVerifier: React.FC<PackageVerifierProps> = ({ fileName, result }) => {
+export const PackageVerifier: React.FC<PackageVerifierProps> = ({ fileName, result, onUnlockKey, onTrustSigner }) => {
   const { t } = useLanguage();
+  const errorCount = result.findings.filter(f => f.severity === 'error').length;
+  const warningCount = result.findings.filter(f => f.severity === 'warning').length;
+  const [signerName, setSignerName] = React.useState('');
+
+  const manifest = result.manifest;
+  const manifestStatus: 'success' | 'error' | 'warning' =
+    !manifest?.present ? 'warning' :
+    !manifest.intact || manifest.signature === 'invalid' ? 'error' :
+    manifest.signature === 'trusted' ? 'success' : 'warning';
+  const manifestText =
+    !manifest?.present ? t('manifestMissing') :
+    !manifest.intact ? t('manifestTampered') :
+    manifest.signature === 'invalid' ? t('signatureInvalid') :
+    manifest.signature === 'unsigned' ? t('manifestUnsigned') :
+    manifest.signature === 'untrusted' ? t('manifestUntrusted') :
+    `${t('manifestTrusted')} ${manifest.signer!.name}`;
   
   const StatusRow = ({ 
     label, 
@@ -76,6 +102,13 @@ export const PackageVerifier: React.FC<PackageVerifierProps> = ({ fileName, resu
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-4">
                 <h3 className="text-sm font-bold text-zinc-500 uppercase tracking-wider mb-2">{t('fileIntegrity')}</h3>
+
+                <StatusRow
+                    label={t('archiveStructure')}
+                    status={errorCount > 0 ? 'error' : warningCount > 0 ? 'warning' : 'success'}
+                    icon={Package}
+                    subtext={errorCount + warningCount > 0 ? `${errorCount} ${t('errors')}, ${warningCount} ${t('warnings')}` : t('archiveClean')}
+                />
                 
                 <StatusRow 
                     label={t('certKeyPresent')}
@@ -88,8 +121,47 @@ export const PackageVerifier: React.FC<PackageVerifierProps> = ({ fileName, resu
                     label={t('keyPairMatch')} 
                     status={result.keyPairMatch === true ? 'success' : result.keyPairMatch === false ? 'error' : 'neutral'}
                     icon={Shield}
-                    subtext={result.keyPairMatch === true ? t('modulusMatches') : result.keyPairMatch === false ? t('keysDoNotMatch') : t('cannotVerify')}
+                    subtext={result.keyPairMatch === true ? t('publicKeyMatches') : result.keyPairMatch === false ? t('keysDoNotMatch') : result.keyLocked ? t('keyLocked') : t('cannotVerify')}
                 />
+
+                <StatusRow
+                    label={t('manifestSignature')}
+                    status={manifestStatus}
+                    icon={FileCheck}
+                    subtext={manifestText}
+                />
+
+                {manifest?.signature === 'untrusted' && manifest.signer && onTrustSigner && (
+                    <div className="bg-zinc-100 dark:bg-zinc-800/50 p-3 rounded-xl text-xs text-zinc-500 dark:text-zinc-400 space-y-2">
+                        <code className="block text-zinc-800 dark:text-zinc-300 select-all break-all">SHA-256 {manifest.signer.fingerprint}</code>
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={signerName}
+                                onChange={(e) => setSignerName(e.target.value)}
+                                placeholder={t('signerName')}
+                                className="flex-1 px-2 py-1.5 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg focus:outline-none focus:border-indigo-500"
+                            />
+                            <button
+                                onClick={() => onTrustSigner({ fingerprint: manifest.signer!.fingerprint, name: signerName.trim() || manifest.signer!.fingerprint.substring(0, 16) })}
+                                className="px-3 py-1.5 bg-zinc-800 hover:bg-indigo-600 text-white rounded-lg transition-colors font-medium"
+                            >
+                                {t('trustSigner')}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {result.keyLocked && onUnlockKey && (
+                    <PassphrasePrompt
+                        key={fileName}
+                        fileName={fileName}
+                        description={t('keyEncryptedDesc')}
+                        placeholder={t('keyPassphrase')}
+                        encryption={result.keyEncryption}
+                        onSubmit={onUnlockKey}
+                    />
+                )}
             </div>
 
             <div className="space-y-4">
@@ -99,7 +171,7 @@ export const PackageVerifier: React.FC<PackageVerifierProps> = ({ fileName, resu
                     label={t('chainCompleteness')} 
                     status={result.chainComplete === true ? 'success' : result.chainComplete === false ? 'warning' : 'neutral'}
                     icon={Layers}
-                    subtext={result.chainComplete === true ? t('bundleLinksRoot') : result.chainComplete === false ? t('brokenChain') : t('noBundle')}
+                    subtext={result.chainComplete === true ? t('bundleLinksRoot') : result.chainComplete === false ? (result.chainProblem || t('brokenChain')) : t('noBundle')}
                 />
 
                 <StatusRow 
@@ -114,6 +186,13 @@ export const PackageVerifier: React.FC<PackageVerifierProps> = ({ fileName, resu
             </div>
         </div>
 
+        {result.findings.length > 0 && (
+            <div className="bg-white dark:bg-zinc-900/50 border border-zinc-200 dark:border-zinc-800 rounded-xl p-4 mt-6">
+                <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-3">{t('archiveFindings')}</h3>
+                <FindingList findings={result.findings} />
+            </div>
+        )}
+
         {result.details.length > 0 && (
             <div className="bg-white dark:bg-zinc-900/50 border border-zinc-200 dark:border-zinc-800 rounded-xl p-4 mt-6">
                 <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-3">{t('detailedLogs')}</h3>
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Archive, Lock, ArrowRight, X, AlertCircle, AlertTriangle } from 'lucide-react';
+import { KeyEncryptionInfo } from '../services/cryptoService';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface PassphrasePromptProps {
+  fileName: string;
+  description: string;
+  placeholder: string;
+  encryption?: KeyEncryptionInfo;
+  onSubmit: (passphrase: string) => void | Promise<void>; // throws or rejects to report a wrong passphrase
+  onCancel?: () => void;
+}
+
+// Passphrase prompt for protected inputs (PKCS#12 files, encrypted private keys)
+export const PassphrasePrompt: React.FC<PassphrasePromptProps> = ({ fileName, description, placeholder, encryption, onSubmit, onCancel }) => {
+  const { t } = useLanguage();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpen = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await onSubmit(password);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <form onSubmit={handleOpen} className="relative border-2 border-dashed border-indigo-500/40 bg-indigo-50/50 dark:bg-indigo-900/10 rounded-xl p-4 space-y-3 animate-fade-in">
+      {onCancel && (
+        <button
+          type="button"
+          onClick={onCancel}
+          className="absolute top-2 right-2 p-1.5 bg-white dark:bg-zinc-900/80 hover:bg-red-50 dark:hover:bg-red-500/20 text-zinc-400 hover:text-red-500 dark:hover:text-red-400 rounded-full transition-colors border border-zinc-200 dark:border-transparent"
+          title="Clear file"
+        >
+          <X size={14} />
+        </button>
+      )}
+      <div className="pr-8">
+        <div className="flex items-center gap-2 text-sm font-mono text-zinc-700 dark:text-zinc-200 truncate">
+          <Archive className="w-4 h-4 shrink-0 text-indigo-600 dark:text-indigo-400" /> {fileName}
+        </div>
+        <p className="text-xs text-zinc-500 mt-1">{description}</p>
+      </div>
+      {encryption && (
+        <div className="text-xs font-mono text-zinc-600 dark:text-zinc-400 space-y-1">
+          <div>{t('keyCipher')}: <span className="text-zinc-800 dark:text-zinc-200">{encryption.cipher}</span></div>
+          <div>{t('keyKdf')}: <span className="text-zinc-800 dark:text-zinc-200">{encryption.kdf}</span></div>
+          {encryption.warnings.map((warning, i) => (
+            <p key={i} className="flex items-start gap-1.5 font-sans text-yellow-700 dark:text-yellow-400">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" /> {warning}
+            </p>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Lock className="w-3.5 h-3.5 text-zinc-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+          <input
+            type="password"
+            autoFocus
+            value={password}
+            onChange={(e) => { setPassword(e.target.value); setError(null); }}
+            placeholder={placeholder}
+            className="w-full pl-8 pr-2 py-1.5 text-sm bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg focus:outline-none focus:border-indigo-500"
+          />
+        </div>
+        <button
+          type="submit"
+          className="flex items-center gap-1 px-3 py-1.5 bg-zinc-800 hover:bg-indigo-600 text-white text-xs rounded-lg transition-colors font-medium"
+        >
+          {t('unlock')} <ArrowRight size={12} />
+        </button>
+      </div>
+      {error && (
+        <p className="flex items-start gap-1.5 text-xs text-red-600 dark:text-red-400">
+          <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-0.5" /> {error}
+        </p>
+      )}
+    </form>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useRef } from 'react';
+import { ShieldOff, FolderOpen, X, Loader2, RefreshCw } from 'lucide-react';
+import { CrlInfo } from '../services/revocationService';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface RevocationPanelProps {
+  crls: CrlInfo[];
+  onAddCrl: (bytes: Uint8Array, name: string) => void;
+  onRemoveCrl: (index: number) => void;
+  online: boolean;
+  onOnlineChange: (online: boolean) => void;
+  onCheck?: () => void;
+  checking?: boolean;
+}
+
+// Uploaded CRLs (used offline, before any server) and the switch for OCSP / CRL downloads
+export const RevocationPanel: React.FC<RevocationPanelProps> = ({ crls, onAddCrl, onRemoveCrl, online, onOnlineChange, onCheck, checking }) => {
+  const { t } = useLanguage();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    e.target.value = '';
+    for (const file of files) {
+      onAddCrl(new Uint8Array(await file.arrayBuffer()), file.name);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-zinc-900/50 border border-zinc-200 dark:border-zinc-800 rounded-xl p-4 space-y-3 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <ShieldOff className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
+        <h4 className="text-sm font-bold text-zinc-700 dark:text-zinc-300">{t('revocation')}</h4>
+        <div className="flex-1" />
+        <label className="flex items-center gap-1.5 text-xs text-zinc-600 dark:text-zinc-400 cursor-pointer select-none">
+          <input type="checkbox" checked={online} onChange={(e) => onOnlineChange(e.target.checked)} className="accent-indigo-600" />
+          {t('queryRevocationServers')}
+        </label>
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="flex items-center gap-1.5 px-2 py-1 text-xs bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg hover:border-indigo-500"
+        >
+          <FolderOpen size={12} /> {t('uploadCrl')}
+        </button>
+        <input ref={inputRef} type="file" multiple accept=".crl,.pem,.der" className="hidden" onChange={handleFile} />
+        {onCheck && (
+          <button
+            onClick={onCheck}
+            disabled={checking}
+            className="flex items-center gap-1.5 px-2 py-1 text-xs bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg disabled:opacity-50"
+          >
+            {checking ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />} {t('checkRevocation')}
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-zinc-500">{t('revocationDesc')}</p>
+
+      {crls.length > 0 && (
+        <ul className="space-y-1">
+          {crls.map((crl, i) => (
+            <li key={`${crl.name}-${i}`} className="flex items-center gap-2 text-xs font-mono text-zinc-600 dark:text-zinc-400">
+              <span className="truncate flex-1" title={crl.issuerName}>
+                {crl.name} · {crl.issuerName} · {crl.revoked.size} {t('crlEntries')} · {crl.thisUpdate.toISOString().substring(0, 10)}
+                {crl.nextUpdate && ` → ${crl.nextUpdate.toISOString().substring(0, 10)}`}
+              </span>
+              <button onClick={() => onRemoveCrl(i)} className="p-1 text-zinc-400 hover:text-red-500">
+                <X size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useRef, useState } from 'react';
+import { PenTool, X, FolderOpen } from 'lucide-react';
+import { SignerDescription, describeSigningKey, isEncryptedKey, describeKeyEncryption, decryptPrivateKey } from '../services/cryptoService';
+import { useLanguage } from '../contexts/LanguageContext';
+import { PassphrasePrompt } from './PassphrasePrompt';
+
+export interface SigningKey {
+  name: string;
+  pem: string; // decrypted; kept in memory only
+  signer: SignerDescription;
+}
+
+interface SigningKeyPanelProps {
+  signingKey: SigningKey | null;
+  onChange: (key: SigningKey | null) => void;
+}
+
+// Team key that signs each package manifest. It is never saved; reload it per session.
+export const SigningKeyPanel: React.FC<SigningKeyPanelProps> = ({ signingKey, onChange }) => {
+  const { t } = useLanguage();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<{ name: string; pem: string } | null>(null);
+
+  const accept = (pem: string, name: string) => {
+    try {
+      onChange({ name, pem, signer: describeSigningKey(pem) });
+      setPending(null);
+    } catch (e: any) {
+      alert(`${t('invalidSigningKey')}: ${e.message}`);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const pem = await file.text();
+    if (isEncryptedKey(pem)) setPending({ name: file.name, pem });
+    else accept(pem, file.name);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+        <PenTool className="w-4 h-4 text-emerald-600 dark:text-emerald-500" />
+        <span className="shrink-0">{t('signingKey')}:</span>
+        {signingKey ? (
+          <>
+            <span className="font-mono text-xs truncate" title={signingKey.signer.fingerprint}>
+              {signingKey.name} · {signingKey.signer.algorithm}
+            </span>
+            <button onClick={() => onChange(null)} title={t('removeSigningKey')} className="p-1.5 text-zinc-400 hover:text-red-500">
+              <X size={14} />
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="flex items-center gap-1.5 px-2 py-1 text-xs bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg hover:border-emerald-500"
+          >
+            <FolderOpen size={12} /> {t('loadSigningKey')}
+          </button>
+        )}
+        <input ref={inputRef} type="file" accept=".key,.pem,.prv" onChange={handleFile} className="hidden" />
+      </div>
+
+      {signingKey && (
+        <p className="text-xs font-mono text-zinc-500 break-all">SHA-256 {signingKey.signer.fingerprint}</p>
+      )}
+      {!signingKey && !pending && <p className="text-xs text-zinc-500">{t('signingKeyHint')}</p>}
+
+      {pending && (
+        <PassphrasePrompt
+          fileName={pending.name}
+          description={t('keyEncryptedDesc')}
+          placeholder={t('keyPassphrase')}
+          encryption={describeKeyEncryption(pending.pem)}
+          onSubmit={(passphrase) => accept(decryptPrivateKey(pending.pem, passphrase), pending.name)}
+          onCancel={() => setPending(null)}
+        />
+      )}
+    </div>
+  );
+};
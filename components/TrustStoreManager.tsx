@@ -0,0 +1,129 @@
+import React, { useRef, useState } from 'react';
+import { Anchor, Link, Trash2, FolderOpen, Search } from 'lucide-react';
+import { TrustSource, TrustStoreEntry } from '../types';
+import { TRUST_SOURCES, importTrustBundle } from '../services/trustStoreService';
+import { useLanguage } from '../contexts/LanguageContext';
+import { TranslationKey } from '../locales';
+
+interface TrustStoreManagerProps {
+  entries: TrustStoreEntry[];
+  onChange: (entries: TrustStoreEntry[]) => void;
+}
+
+const SOURCE_LABELS: Record<TrustSource, TranslationKey> = {
+  mozilla: 'trustSourceMozilla',
+  internal: 'trustSourceInternal',
+  curated: 'trustSourceCurated',
+};
+
+const selectClass = "px-2 py-1.5 text-xs bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg focus:outline-none focus:border-indigo-500";
+
+// Roots and intermediates used to anchor and complete chains without fetching
+export const TrustStoreManager: React.FC<TrustStoreManagerProps> = ({ entries, onChange }) => {
+  const { t } = useLanguage();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState<TrustSource>('mozilla');
+  const [filter, setFilter] = useState('');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = importTrustBundle(await file.text(), source, entries);
+    if (result.added === 0 && result.skipped === 0) {
+      alert(t('trustStoreNothingFound'));
+      return;
+    }
+    onChange(result.entries);
+    alert(t('trustStoreImported').replace('{added}', String(result.added)).replace('{skipped}', String(result.skipped)));
+  };
+
+  const clearSource = (id: TrustSource) => {
+    if (window.confirm(t('trustStoreClearConfirm'))) onChange(entries.filter(e => e.source !== id));
+  };
+
+  const query = filter.trim().toLowerCase();
+  const shown = entries
+    .filter(e => !query || e.subject.toLowerCase().includes(query) || e.fingerprint.startsWith(query.replace(/:/g, '')))
+    .sort((a, b) => a.subject.localeCompare(b.subject));
+  const now = new Date().toISOString();
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="text-center">
+        <h3 className="text-xl font-bold text-zinc-800 dark:text-white">{t('trustStoreTitle')}</h3>
+        <p className="text-zinc-500 dark:text-zinc-400 mt-2 max-w-lg mx-auto text-sm">{t('trustStoreDesc')}</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {TRUST_SOURCES.map(s => {
+          const count = entries.filter(e => e.source === s.id).length;
+          return (
+            <div key={s.id} className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-xl p-4">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-bold uppercase tracking-wider text-zinc-500">{t(SOURCE_LABELS[s.id])}</span>
+                {count > 0 && (
+                  <button onClick={() => clearSource(s.id)} title={t('trustStoreClear')} className="p-1 text-zinc-400 hover:text-red-500">
+                    <Trash2 size={12} />
+                  </button>
+                )}
+              </div>
+              <div className="text-2xl font-bold text-zinc-800 dark:text-white mt-1">{count}</div>
+              <div className="text-[10px] text-zinc-500">{s.anchor ? t('trustAnchors') : t('intermediates')}</div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={source} onChange={(e) => setSource(e.target.value as TrustSource)} className={selectClass}>
+          {TRUST_SOURCES.map(s => <option key={s.id} value={s.id}>{t(SOURCE_LABELS[s.id])}</option>)}
+        </select>
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg font-medium"
+        >
+          <FolderOpen size={14} /> {t('trustStoreImport')}
+        </button>
+        <input ref={inputRef} type="file" accept=".txt,.pem,.crt,.cer,.bundle" className="hidden" onChange={handleFile} />
+        <div className="flex-1 min-w-[10rem] flex items-center gap-2 px-2 py-1.5 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg">
+          <Search size={14} className="text-zinc-400" />
+          <input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder={t('trustStoreFilter')}
+            className="flex-1 bg-transparent text-xs focus:outline-none"
+          />
+        </div>
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-center text-sm text-zinc-500">{t('trustStoreEmpty')}</p>
+      ) : (
+        <ul className="divide-y divide-zinc-200 dark:divide-zinc-800 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-xl">
+          {shown.map(entry => (
+            <li key={entry.fingerprint} className="flex items-center gap-3 px-4 py-2 text-sm">
+              {entry.anchor
+                ? <Anchor size={14} className="shrink-0 text-yellow-600 dark:text-yellow-500" />
+                : <Link size={14} className="shrink-0 text-zinc-400" />}
+              <div className="min-w-0 flex-1">
+                <div className="font-mono text-xs font-bold text-zinc-800 dark:text-zinc-200 truncate">{entry.subject}</div>
+                <div className="text-[10px] text-zinc-500 font-mono truncate" title={entry.fingerprint}>
+                  {t(SOURCE_LABELS[entry.source])} · SHA-256 {entry.fingerprint.substring(0, 16)}… ·{' '}
+                  <span className={entry.notAfter < now ? 'text-red-500' : ''}>{t('validUntil')} {entry.notAfter.substring(0, 10)}</span>
+                </div>
+              </div>
+              <button
+                onClick={() => onChange(entries.filter(e => e.fingerprint !== entry.fingerprint))}
+                title={t('trustStoreRemove')}
+                className="p-1.5 text-zinc-400 hover:text-red-500"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { Copy, Check, Terminal } from 'lucide-react';
+import { TransferProtocol, WingScriptSettings, WingService } from '../types';
+import { WING_SERVICES } from '../services/packageService';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface WingScriptPanelProps {
+  settings: WingScriptSettings;
+  script: string;
+  onChange: (settings: WingScriptSettings) => void;
+}
+
+const PROTOCOLS: TransferProtocol[] = ['sftp', 'ftp', 'tftp', 'http'];
+
+const inputClass = "px-2 py-1.5 text-xs font-mono bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg focus:outline-none focus:border-emerald-500 disabled:opacity-50";
+
+export const WingScriptPanel: React.FC<WingScriptPanelProps> = ({ settings, script, onChange }) => {
+  const { t } = useLanguage();
+  const [copied, setCopied] = React.useState(false);
+  const update = (changes: Partial<WingScriptSettings>) => onChange({ ...settings, ...changes });
+  const hasLogin = settings.protocol === 'sftp' || settings.protocol === 'ftp';
+
+  const toggleService = (service: WingService) => {
+    const services = settings.services.includes(service)
+      ? settings.services.filter(s => s !== service)
+      : WING_SERVICES.filter(s => s === service || settings.services.includes(s));
+    update({ services });
+  };
+
+  const copyScript = () => {
+    navigator.clipboard.writeText(script);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+        <Terminal className="w-4 h-4 text-emerald-600 dark:text-emerald-500" /> {t('wingScript')}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <select
+          value={settings.protocol}
+          onChange={(e) => update({ protocol: e.target.value as TransferProtocol })}
+          className={inputClass}
+        >
+          {PROTOCOLS.map(p => <option key={p} value={p}>{p.toUpperCase()}</option>)}
+        </select>
+        <input
+          type="text"
+          value={settings.host}
+          onChange={(e) => update({ host: e.target.value.trim() })}
+          placeholder={t('host')}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={settings.path}
+          onChange={(e) => update({ path: e.target.value.trim() })}
+          placeholder={t('remotePath')}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={settings.username}
+          onChange={(e) => update({ username: e.target.value.trim() })}
+          placeholder={t('username')}
+          disabled={!hasLogin}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs text-zinc-600 dark:text-zinc-400">
+        <span>{t('trustpointServices')}:</span>
+        {WING_SERVICES.map(service => (
+          <label key={service} className="flex items-center gap-1.5 cursor-pointer select-none font-mono">
+            <input
+              type="checkbox"
+              checked={settings.services.includes(service)}
+              onChange={() => toggleService(service)}
+              className="accent-emerald-600"
+            />
+            {service}
+          </label>
+        ))}
+      </div>
+
+      <div className="relative">
+        <pre className="p-3 pr-10 bg-zinc-50 dark:bg-black/40 rounded-lg border border-zinc-200 dark:border-zinc-800 font-mono text-xs text-zinc-700 dark:text-zinc-300 overflow-x-auto whitespace-pre">{script}</pre>
+        <button
+          onClick={copyScript}
+          title={t('copyScript')}
+          className="absolute top-2 right-2 p-1.5 text-zinc-400 hover:text-zinc-600 dark:text-zinc-600 dark:hover:text-white"
+        >
+          {copied ? <Check size={14} /> : <Copy size={14} />}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -33,7 +33,7 @@ export const translations = {
     analyzing: "Analyzing certificate context...",
     artifactsCreated: "Package Artifacts Ready",
     downloadLocal: "Download Local",
-    pushSftp: "Push to SFTP",
+    pushToTarget: "Upload to target",
     uploading: "Uploading...",
 
     // Requester Section
@@ -52,6 +52,7 @@ export const translations = {
     // Validator Section
     validateTitle: "Validate Existing Package",
     validateDesc: "Upload a .tar file to verify certificate integrity, key matching, and chain completeness.",
+    selectPackage: "Select .tar package",
     
     // File Upload Component
     uploadFile: "Upload File",
@@ -60,12 +61,51 @@ export const translations = {
     contentLoaded: "Content loaded successfully",
     loadText: "Load Text",
     pastePlaceholder: "-----BEGIN... Paste content here...",
+    unrecognizedInput: "Unrecognized content. Expected a certificate, private key, PKCS#7, PKCS#12 or .tar package.",
+    loadLeafFirst: "Load the leaf certificate before adding a chain.",
+
+    // PKCS#12 Import
+    pkcs12Desc: "Fills certificate, key and chain at once",
+    pkcs12Password: "PFX password",
+    unlock: "Unlock",
+    keyEncryptedDesc: "Private key is encrypted, enter its passphrase",
+    keyParseError: "The encrypted private key cannot be read.",
+    keyPassphrase: "Key passphrase",
+    keyCipher: "Cipher",
+    keyKdf: "KDF",
+    keyDecrypted: "Decrypted key",
+    keyLocked: "Private key is encrypted: enter the passphrase to check the key pair",
+    encrypted: "encrypted",
+    protectKey: "Protect private key with a passphrase",
+    protectKeyHint: "Give the same passphrase to `crypto pki import trustpoint ... passphrase` on the device",
+    confirmPassphrase: "Confirm passphrase",
+    passphraseTooShort: "Passphrase must be at least 4 characters",
+    passphraseMismatch: "Passphrases do not match",
+    keyFormatLegacy: "OpenSSL PEM, AES-256 (WiNG)",
+    keyFormatPkcs8: "PKCS#8, AES-256 / PBKDF2",
+    outputProfile: "Output profile",
+    includeRoot: "Include root CA",
+    chainOrder: "Chain order",
+    chainLeafFirst: "Leaf → root",
+    chainRootFirst: "Root → leaf",
+    lineEndings: "Line endings",
+    keyFormat: "Key format",
+    keyFormatOriginal: "Key as loaded",
+    gzipPackage: "gzip (.tar.gz)",
+    wingScript: "WiNG CLI import script",
+    remotePath: "Remote directory",
+    trustpointServices: "Use trustpoint for",
+    copyScript: "Copy script",
 
     // Cert Viewer
     organization: "Organization",
     issuer: "Issuer",
     validity: "Validity",
-    aiaUrl: "AIA URL",
+    caIssuers: "CA Issuers (AIA)",
+    ocspResponders: "OCSP Responders",
+    crlDistributionPoints: "CRL Distribution Points",
+    publicKey: "Public Key",
+    bits: "bit",
     chainLength: "Chain Length",
     refetchChain: "Re-fetch Chain",
     resolvingChain: "Resolving Chain...",
@@ -77,6 +117,105 @@ export const translations = {
     leaf: "LEAF",
     rootCa: "Root CA",
     brokenLink: "Broken Link",
+    chainInvalid: "Chain Invalid",
+    modeTrustStore: "Trust Store",
+    trustStoreTitle: "Local Trust Store",
+    trustStoreDesc: "Trust anchors and intermediates used to complete and anchor chains without fetching. Import Mozilla's certdata.txt or PEM bundles.",
+    trustSourceMozilla: "Mozilla roots",
+    trustSourceInternal: "Internal roots",
+    trustSourceCurated: "Curated intermediates",
+    trustAnchors: "Trust anchors",
+    intermediates: "Intermediates",
+    trustStoreImport: "Import certdata.txt / PEM",
+    trustStoreImported: "Imported {added} certificate(s), skipped {skipped} already present or unreadable",
+    trustStoreNothingFound: "No certificates found in this file",
+    trustStoreClear: "Remove all from this source",
+    trustStoreClearConfirm: "Remove every certificate imported from this source?",
+    trustStoreFilter: "Filter by name or fingerprint",
+    trustStoreEmpty: "No certificates in the trust store",
+    trustStoreRemove: "Remove from trust store",
+    trustStoreFull: "The trust store is too large for browser storage; it will be lost on reload",
+    fromTrustStore: "Trust store",
+    anchoredAt: "Anchored at",
+    unanchored: "Not anchored in the trust store",
+    revocation: "Revocation",
+    revocationDesc: "Uploaded CRLs are checked first and work offline. When servers may be queried, OCSP responders and CRL distribution points named in the certificates are tried next.",
+    uploadCrl: "Upload CRL",
+    invalidCrl: "Not a usable CRL",
+    crlEntries: "entries",
+    queryRevocationServers: "Query OCSP / CRL servers",
+    checkRevocation: "Check revocation",
+    checkingRevocation: "Checking revocation...",
+    revocationGood: "Not revoked",
+    revocationRevoked: "Revoked",
+    revocationUnknown: "Revocation unknown",
+    revocationError: "Revocation check failed",
+    revokedBlocked: "A certificate in this chain is revoked. The package was not built.",
+    fetchRelayTitle: "Network Fetches",
+    fetchRelayDesc: "CA certificates, OCSP responses and CRLs are fetched directly from the URLs in the certificates. A relay is only used when a direct fetch fails, usually because the server sends no CORS headers. Nothing is sent to third parties unless you configure one.",
+    fetchRelayUrl: "Relay URL",
+    fetchRelayNone: "No relay",
+    fetchRelayUseCompanion: "Use companion",
+    fetchAllowedHosts: "Allowed hosts",
+    fetchAllowedHostsHint: "One per line; *.example.com matches subdomains. Leave empty to allow any host.",
+    fetchLog: "Fetch log",
+    fetchLogEmpty: "Nothing fetched yet.",
+    fetchLogClear: "Clear log",
+    fetchPathDirect: "direct",
+    fetchPathRelay: "relay",
+    fetchPathBlocked: "blocked",
+    fetchPathFailed: "failed",
+    subjectAltNames: "Subject Alternative Names",
+    noHostSans: "No DNS or IP SANs: browsers ignore the common name, so they will reject this certificate.",
+    controllerHosts: "Controller Hostnames / IPs",
+    controllerHostsHint: "Enter every name and address the controller is reached by. Each must be covered by a SAN before the package can be built.",
+    coveredBy: "covered by",
+    hostsNotCovered: "Not every controller hostname is covered by the certificate's SANs. Enter the controller's names and check the list.",
+    hostsNotCoveredShort: "Hostnames not covered",
+    showDetails: "Inspect certificate",
+    hideDetails: "Hide details",
+    serialNumber: "Serial Number",
+    certVersion: "Version",
+    signatureAlgorithm: "Signature Algorithm",
+    spkiPin: "SPKI Pin (SHA-256)",
+    extensions: "Extensions",
+    critical: "critical",
+    asn1Tree: "ASN.1 Structure",
+    lintTitle: "Certificate Lint",
+    lintRules: "Rules",
+    lintClean: "No findings.",
+    lintBlocking: "Findings at severity error block packaging.",
+    lintBlockedAlert: "The certificate has lint errors. Fix them or change the rule pack before packaging.",
+    lintBlockedShort: "Lint errors",
+    lintPackName: "Rule pack name",
+    lintExport: "Export",
+    lintImport: "Import",
+    lintReset: "Defaults",
+    lintResetConfirm: "Replace the rule pack with the built-in defaults?",
+    lintPackInvalid: "Invalid rule pack",
+    lintWholeChain: "whole chain",
+    analysisProvider: "AI provider",
+    analysisModel: "Model",
+    analysisEndpoint: "Endpoint (OpenAI-compatible, e.g. Ollama)",
+    analysisApiKey: "API key",
+    analysisApiKeyHint: "Kept for this session only, never saved.",
+    analysisApply: "Apply and re-analyze",
+    reanalyze: "Re-analyze",
+    analysisFailed: "AI analysis unavailable",
+    analysisFailedHint: "The package name below is derived from the common name. Check the certificate manually.",
+    optional: "optional",
+    caCacheTitle: "Cached CA Certificates",
+    caCacheDesc: "Every CA fetched over AIA or uploaded into a chain is kept in this browser, indexed by subject and key identifier, so later chains resolve offline. Cached certificates are not trusted; each issuer is signature-checked.",
+    caCacheRefresh: "Refresh",
+    caCacheExport: "Export PEM",
+    caCachePurge: "Purge",
+    caCachePurgeConfirm: "Remove every cached CA certificate?",
+    caCacheRemove: "Remove from cache",
+    caCacheEmpty: "No cached CA certificates",
+    caCacheUnavailable: "CA cache unavailable",
+    caCacheFetched: "fetched",
+    caCacheUploaded: "uploaded",
+    fromCache: "Cache",
     uploadIssuer: "Upload Issuer or Chain Bundle",
     selectCertOrBundle: "Select .crt / .pem / .bundle file",
     uploadCertFor: "Please upload the certificate for:",
@@ -92,7 +231,7 @@ export const translations = {
     bothFilesPresent: "Both files present",
     missingFiles: "Missing .crt or .key",
     keyPairMatch: "Key Pair Match",
-    modulusMatches: "Modulus matches",
+    publicKeyMatches: "Public key matches",
     keysDoNotMatch: "Keys do not match",
     cannotVerify: "Cannot verify",
     chainCompleteness: "Chain Completeness",
@@ -104,14 +243,48 @@ export const translations = {
     checkValidity: "Check Validity",
     validUntil: "Valid until",
     detailedLogs: "Detailed Logs",
+    archiveFindings: "Archive Findings",
+    manifestSignature: "Manifest & Signature",
+    manifestMissing: "No manifest; tampering can't be detected",
+    manifestTampered: "Contents changed after the package was built",
+    manifestUnsigned: "Contents intact, manifest not signed",
+    manifestUntrusted: "Contents intact, signed by an unknown key",
+    manifestTrusted: "Contents intact, signed by",
+    signatureInvalid: "Manifest signature is invalid",
+    signerName: "Signer name",
+    trustSigner: "Trust signer",
+    signingKey: "Manifest signing key",
+    packageHashHint: "Hash of the last built package. Rebuilding from the same certificate, key and chain gives the same bytes.",
+    notReproducible: "Encrypted keys use a random salt, so this package will hash differently on every build.",
+    recordBuildTime: "Record the build time in MANIFEST.json",
+    buildTimeNotReproducible: "The manifest records the build time, so this package will hash differently on every build.",
+    loadSigningKey: "Load key",
+    removeSigningKey: "Forget signing key",
+    signingKeyHint: "Optional. The key is kept in memory only and signs MANIFEST.json in each package.",
+    invalidSigningKey: "Cannot use this signing key",
+    archiveStructure: "Archive Structure",
+    archiveClean: "No unsafe, duplicate or ambiguous members",
+    errors: "errors",
+    warnings: "warnings",
 
     // SFTP Modal
     uploadSuccess: "Upload Successful",
-    fileReady: "File is ready for secure distribution.",
+    uploadFailed: "Upload Failed",
     host: "Host",
     username: "Username",
-    password: "Password",
-    runCommand: "Run this command to download:",
+    port: "Port",
+    passwordNotSaved: "Password (not saved)",
+    uploadTarget: "Upload target",
+    noTargets: "No saved targets",
+    addTarget: "Add target",
+    removeTarget: "Remove target",
+    targetName: "Name",
+    hostKeyFingerprint: "Host key fingerprint (SHA256:...)",
+    hostKey: "Host key",
+    transferred: "Transferred",
+    hostKeyUnknown: "The server's host key is not pinned for this target. Compare it with `ssh-keygen -lf` output from the server before trusting it.",
+    hostKeyChanged: "The server presented a different host key than the pinned one. This can mean the connection is being intercepted.",
+    trustHostKey: "Trust this key and retry",
     done: "Done"
   },
   ru: {
@@ -147,7 +320,7 @@ export const translations = {
     analyzing: "Анализ контекста сертификата...",
     artifactsCreated: "Артефакты пакета готовы",
     downloadLocal: "Скачать локально",
-    pushSftp: "Отправить на SFTP",
+    pushToTarget: "Загрузить на сервер",
     uploading: "Загрузка...",
 
     // Requester Section
@@ -166,6 +339,7 @@ export const translations = {
     // Validator Section
     validateTitle: "Проверка готового пакета",
     validateDesc: "Загрузите файл .tar для проверки целостности, соответствия ключей и полноты цепочки.",
+    selectPackage: "Выберите пакет .tar",
     
     // File Upload Component
     uploadFile: "Загрузить файл",
@@ -174,12 +348,51 @@ export const translations = {
     contentLoaded: "Контент успешно загружен",
     loadText: "Загрузить текст",
     pastePlaceholder: "-----BEGIN... Вставьте содержимое здесь...",
+    unrecognizedInput: "Неизвестное содержимое. Ожидается сертификат, закрытый ключ, PKCS#7, PKCS#12 или пакет .tar.",
+    loadLeafFirst: "Сначала загрузите конечный сертификат, затем цепочку.",
+
+    // PKCS#12 Import
+    pkcs12Desc: "Заполняет сертификат, ключ и цепочку сразу",
+    pkcs12Password: "Пароль PFX",
+    unlock: "Открыть",
+    keyEncryptedDesc: "Закрытый ключ зашифрован, введите парольную фразу",
+    keyParseError: "Не удаётся прочитать зашифрованный закрытый ключ.",
+    keyPassphrase: "Парольная фраза ключа",
+    keyCipher: "Шифр",
+    keyKdf: "KDF",
+    keyDecrypted: "Расшифрованный ключ",
+    keyLocked: "Закрытый ключ зашифрован: введите парольную фразу для проверки пары ключей",
+    encrypted: "зашифрован",
+    protectKey: "Защитить закрытый ключ парольной фразой",
+    protectKeyHint: "Укажите ту же фразу в `crypto pki import trustpoint ... passphrase` на устройстве",
+    confirmPassphrase: "Повторите парольную фразу",
+    passphraseTooShort: "Парольная фраза должна быть не короче 4 символов",
+    passphraseMismatch: "Парольные фразы не совпадают",
+    keyFormatLegacy: "OpenSSL PEM, AES-256 (WiNG)",
+    keyFormatPkcs8: "PKCS#8, AES-256 / PBKDF2",
+    outputProfile: "Профиль пакета",
+    includeRoot: "Включить корневой CA",
+    chainOrder: "Порядок цепочки",
+    chainLeafFirst: "Лист → корень",
+    chainRootFirst: "Корень → лист",
+    lineEndings: "Окончания строк",
+    keyFormat: "Формат ключа",
+    keyFormatOriginal: "Ключ как загружен",
+    gzipPackage: "gzip (.tar.gz)",
+    wingScript: "Скрипт импорта для WiNG CLI",
+    remotePath: "Каталог на сервере",
+    trustpointServices: "Использовать trustpoint для",
+    copyScript: "Скопировать скрипт",
 
     // Cert Viewer
     organization: "Организация",
     issuer: "Издатель",
     validity: "Срок действия",
-    aiaUrl: "URL AIA",
+    caIssuers: "Издатели CA (AIA)",
+    ocspResponders: "OCSP-респондеры",
+    crlDistributionPoints: "Точки распространения CRL",
+    publicKey: "Открытый ключ",
+    bits: "бит",
     chainLength: "Длина цепочки",
     refetchChain: "Обновить цепочку",
     resolvingChain: "Поиск цепочки...",
@@ -191,6 +404,105 @@ export const translations = {
     leaf: "ИСТЁК",
     rootCa: "Корневой CA",
     brokenLink: "Связь разорвана",
+    chainInvalid: "Цепочка недействительна",
+    modeTrustStore: "Хранилище доверия",
+    trustStoreTitle: "Локальное хранилище доверия",
+    trustStoreDesc: "Доверенные корни и промежуточные CA для достройки и привязки цепочек без загрузки из сети. Импортируйте certdata.txt Mozilla или PEM-наборы.",
+    trustSourceMozilla: "Корни Mozilla",
+    trustSourceInternal: "Внутренние корни",
+    trustSourceCurated: "Отобранные промежуточные",
+    trustAnchors: "Якоря доверия",
+    intermediates: "Промежуточные",
+    trustStoreImport: "Импорт certdata.txt / PEM",
+    trustStoreImported: "Импортировано сертификатов: {added}, пропущено (уже есть или не читаются): {skipped}",
+    trustStoreNothingFound: "В файле не найдено сертификатов",
+    trustStoreClear: "Удалить все из этого источника",
+    trustStoreClearConfirm: "Удалить все сертификаты, импортированные из этого источника?",
+    trustStoreFilter: "Фильтр по имени или отпечатку",
+    trustStoreEmpty: "Хранилище доверия пусто",
+    trustStoreRemove: "Удалить из хранилища",
+    trustStoreFull: "Хранилище доверия не помещается в память браузера и будет потеряно после перезагрузки",
+    fromTrustStore: "Хранилище",
+    anchoredAt: "Привязана к",
+    unanchored: "Не привязана к хранилищу доверия",
+    revocation: "Отзыв",
+    revocationDesc: "Загруженные CRL проверяются первыми и работают офлайн. Если разрешены запросы к серверам, затем опрашиваются OCSP-ответчики и точки распространения CRL из сертификатов.",
+    uploadCrl: "Загрузить CRL",
+    invalidCrl: "Непригодный CRL",
+    crlEntries: "записей",
+    queryRevocationServers: "Опрашивать серверы OCSP / CRL",
+    checkRevocation: "Проверить отзыв",
+    checkingRevocation: "Проверка отзыва...",
+    revocationGood: "Не отозван",
+    revocationRevoked: "Отозван",
+    revocationUnknown: "Статус отзыва неизвестен",
+    revocationError: "Ошибка проверки отзыва",
+    revokedBlocked: "Сертификат в этой цепочке отозван. Пакет не собран.",
+    fetchRelayTitle: "Сетевые запросы",
+    fetchRelayDesc: "Сертификаты УЦ, ответы OCSP и CRL загружаются напрямую по адресам из сертификатов. Ретранслятор используется, только если прямой запрос не удался, обычно из-за отсутствия заголовков CORS. Третьим сторонам ничего не передаётся, пока вы его не настроите.",
+    fetchRelayUrl: "URL ретранслятора",
+    fetchRelayNone: "Без ретранслятора",
+    fetchRelayUseCompanion: "Использовать компаньон",
+    fetchAllowedHosts: "Разрешённые хосты",
+    fetchAllowedHostsHint: "По одному в строке; *.example.com соответствует поддоменам. Оставьте пустым, чтобы разрешить любой хост.",
+    fetchLog: "Журнал запросов",
+    fetchLogEmpty: "Запросов ещё не было.",
+    fetchLogClear: "Очистить журнал",
+    fetchPathDirect: "напрямую",
+    fetchPathRelay: "ретранслятор",
+    fetchPathBlocked: "заблокирован",
+    fetchPathFailed: "ошибка",
+    subjectAltNames: "Альтернативные имена (SAN)",
+    noHostSans: "Нет SAN типа DNS или IP: браузеры игнорируют CN и отклонят этот сертификат.",
+    controllerHosts: "Имена хостов / IP контроллера",
+    controllerHostsHint: "Введите все имена и адреса, по которым доступен контроллер. Каждое должно покрываться SAN, иначе пакет не будет собран.",
+    coveredBy: "покрыто",
+    hostsNotCovered: "Не все имена контроллера покрываются SAN сертификата. Введите имена контроллера и проверьте список.",
+    hostsNotCoveredShort: "Имена не покрыты",
+    showDetails: "Подробности сертификата",
+    hideDetails: "Скрыть подробности",
+    serialNumber: "Серийный номер",
+    certVersion: "Версия",
+    signatureAlgorithm: "Алгоритм подписи",
+    spkiPin: "SPKI-пин (SHA-256)",
+    extensions: "Расширения",
+    critical: "критическое",
+    asn1Tree: "Структура ASN.1",
+    lintTitle: "Проверка сертификата",
+    lintRules: "Правила",
+    lintClean: "Замечаний нет.",
+    lintBlocking: "Замечания уровня error блокируют сборку пакета.",
+    lintBlockedAlert: "У сертификата есть ошибки проверки. Исправьте их или измените набор правил перед сборкой.",
+    lintBlockedShort: "Ошибки проверки",
+    lintPackName: "Название набора правил",
+    lintExport: "Экспорт",
+    lintImport: "Импорт",
+    lintReset: "По умолчанию",
+    lintResetConfirm: "Заменить набор правил встроенным по умолчанию?",
+    lintPackInvalid: "Некорректный набор правил",
+    lintWholeChain: "вся цепочка",
+    analysisProvider: "ИИ-провайдер",
+    analysisModel: "Модель",
+    analysisEndpoint: "Адрес (совместимый с OpenAI, например Ollama)",
+    analysisApiKey: "API-ключ",
+    analysisApiKeyHint: "Хранится только в этой сессии и не сохраняется.",
+    analysisApply: "Применить и проанализировать заново",
+    reanalyze: "Повторить анализ",
+    analysisFailed: "ИИ-анализ недоступен",
+    analysisFailedHint: "Имя пакета ниже получено из общего имени. Проверьте сертификат вручную.",
+    optional: "необязательно",
+    caCacheTitle: "Кэш сертификатов CA",
+    caCacheDesc: "Все CA, загруженные по AIA или добавленные в цепочку вручную, хранятся в этом браузере с индексом по субъекту и идентификатору ключа, чтобы следующие цепочки собирались офлайн. Кэшу не доверяется: подпись каждого издателя проверяется.",
+    caCacheRefresh: "Обновить",
+    caCacheExport: "Экспорт PEM",
+    caCachePurge: "Очистить",
+    caCachePurgeConfirm: "Удалить все сертификаты CA из кэша?",
+    caCacheRemove: "Удалить из кэша",
+    caCacheEmpty: "Кэш сертификатов CA пуст",
+    caCacheUnavailable: "Кэш CA недоступен",
+    caCacheFetched: "загружен",
+    caCacheUploaded: "добавлен",
+    fromCache: "Кэш",
     uploadIssuer: "Загрузить издателя или цепочку",
     selectCertOrBundle: "Выберите файл .crt / .pem / .bundle",
     uploadCertFor: "Пожалуйста, загрузите сертификат для:",
@@ -206,7 +518,7 @@ export const translations = {
     bothFilesPresent: "Оба файла присутствуют",
     missingFiles: "Нет .crt или .key",
     keyPairMatch: "Совпадение пары ключей",
-    modulusMatches: "Модули совпадают",
+    publicKeyMatches: "Открытые ключи совпадают",
     keysDoNotMatch: "Ключи не совпадают",
     cannotVerify: "Не удалось проверить",
     chainCompleteness: "Полнота цепочки",
@@ -218,14 +530,48 @@ export const translations = {
     checkValidity: "Проверьте даты",
     validUntil: "Действует до",
     detailedLogs: "Подробный журнал",
+    archiveFindings: "Замечания по архиву",
+    manifestSignature: "Манифест и подпись",
+    manifestMissing: "Манифеста нет; изменения обнаружить нельзя",
+    manifestTampered: "Содержимое изменено после сборки пакета",
+    manifestUnsigned: "Содержимое не изменено, манифест не подписан",
+    manifestUntrusted: "Содержимое не изменено, подписано неизвестным ключом",
+    manifestTrusted: "Содержимое не изменено, подписано:",
+    signatureInvalid: "Подпись манифеста недействительна",
+    signerName: "Имя подписанта",
+    trustSigner: "Доверять подписанту",
+    signingKey: "Ключ подписи манифеста",
+    packageHashHint: "Хеш последнего собранного пакета. Повторная сборка из тех же сертификата, ключа и цепочки даёт те же байты.",
+    notReproducible: "Зашифрованный ключ использует случайную соль, поэтому хеш пакета меняется при каждой сборке.",
+    recordBuildTime: "Записывать время сборки в MANIFEST.json",
+    buildTimeNotReproducible: "Манифест содержит время сборки, поэтому хеш пакета меняется при каждой сборке.",
+    loadSigningKey: "Загрузить ключ",
+    removeSigningKey: "Забыть ключ подписи",
+    signingKeyHint: "Необязательно. Ключ хранится только в памяти и подписывает MANIFEST.json в каждом пакете.",
+    invalidSigningKey: "Этот ключ подписи нельзя использовать",
+    archiveStructure: "Структура архива",
+    archiveClean: "Нет опасных, повторяющихся или неоднозначных файлов",
+    errors: "ошибок",
+    warnings: "предупреждений",
 
     // SFTP Modal
     uploadSuccess: "Загрузка успешна",
-    fileReady: "Файл готов к защищенному распространению.",
+    uploadFailed: "Ошибка загрузки",
     host: "Хост",
     username: "Пользователь",
-    password: "Пароль",
-    runCommand: "Выполните эту команду для скачивания:",
+    port: "Порт",
+    passwordNotSaved: "Пароль (не сохраняется)",
+    uploadTarget: "Сервер загрузки",
+    noTargets: "Нет сохраненных серверов",
+    addTarget: "Добавить сервер",
+    removeTarget: "Удалить сервер",
+    targetName: "Название",
+    hostKeyFingerprint: "Отпечаток ключа хоста (SHA256:...)",
+    hostKey: "Ключ хоста",
+    transferred: "Передано",
+    hostKeyUnknown: "Ключ хоста не закреплен для этого сервера. Сверьте его с выводом `ssh-keygen -lf` на сервере, прежде чем доверять.",
+    hostKeyChanged: "Сервер предъявил ключ, отличный от закрепленного. Возможно, соединение перехватывается.",
+    trustHostKey: "Доверять ключу и повторить",
     done: "Готово"
   }
 };
@@ -0,0 +1,286 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AnalysisOutcome, AnalysisProviderId, AnalysisSettings, CertificateAnalysis, CertificateInfo, ChainItem, LintFinding } from "../types";
+import { certificateSha256, sha256Hex } from "./cryptoService";
+
+// AI analysis behind a provider interface. Every provider gets the same prompt, built from
+// structured certificate data, and every answer is checked against one strict schema before use.
+
+const SETTINGS_KEY = 'analysisProvider';
+const REQUEST_TIMEOUT_MS = 60000;
+const MAX_CACHED_ANALYSES = 50;
+const LANGUAGE_NAMES: Record<string, string> = { en: 'English', ru: 'Russian' };
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = { provider: 'gemini', model: '', baseUrl: 'http://localhost:11434/v1' };
+
+// --- Prompt ---
+
+const describeCertificate = (info: CertificateInfo) => ({
+  commonName: info.commonName,
+  organization: info.organization,
+  issuer: info.issuer,
+  serialNumber: info.serialNumber,
+  notBefore: info.validFrom.toISOString(),
+  notAfter: info.validTo.toISOString(),
+  key: `${info.keyAlgorithm} ${info.curve || info.keySize}`,
+  subjectAltNames: info.subjectAltNames,
+  ocsp: info.ocspUrls.length > 0,
+  crl: info.crlUrls.length > 0,
+});
+
+// What the model is told about the certificates; nothing else from the app reaches it
+export interface AnalysisContext {
+  language: string;
+  leaf: ReturnType<typeof describeCertificate>;
+  chain: (ReturnType<typeof describeCertificate> & { root: boolean; source: ChainItem['source'] })[]; // leaf's issuer first
+  chainEndsAtRoot: boolean;
+  lintFindings: { rule: string; severity: string; message: string }[];
+}
+
+interface AnalysisRequest {
+  system: string;
+  prompt: string; // the context as JSON
+  context: AnalysisContext;
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+const describeFindings = (findings: LintFinding[]) =>
+  findings.map(f => ({ rule: f.code, severity: f.severity, message: f.message }));
+
+export const buildAnalysisContext = (info: CertificateInfo, chain: ChainItem[], findings: LintFinding[], language: string): AnalysisContext => ({
+  language: LANGUAGE_NAMES[language] || language,
+  leaf: describeCertificate(info),
+  chain: chain.map(item => ({ ...describeCertificate(item.info), root: item.isRoot, source: item.source })),
+  chainEndsAtRoot: chain.length > 0 && chain[chain.length - 1].isRoot,
+  lintFindings: describeFindings(findings),
+});
+
+// JSON Schema of an answer; validateAnalysis enforces the same rules
+const FILENAME_PATTERN = '^[A-Za-z0-9][A-Za-z0-9._-]*$';
+const LIMITS: Record<keyof CertificateAnalysis, number> = { assessment: 2000, suggestedFilename: 100, readmeContent: 4000 };
+export const ANALYSIS_SCHEMA = {
+  type: 'object',
+  properties: {
+    assessment: { type: 'string', minLength: 1, maxLength: LIMITS.assessment },
+    suggestedFilename: { type: 'string', minLength: 1, maxLength: LIMITS.suggestedFilename, pattern: FILENAME_PATTERN },
+    readmeContent: { type: 'string', minLength: 1, maxLength: LIMITS.readmeContent },
+  },
+  required: ['assessment', 'suggestedFilename', 'readmeContent'],
+  additionalProperties: false,
+};
+
+const systemPrompt = (language: string) => `You review X.509 certificates that will be installed as a trustpoint on a WiNG wireless controller.
+The user message is a JSON description of the leaf certificate, its CA chain (the leaf's issuer first) and the findings of an offline linter.
+Reply with one JSON object and nothing else, valid against this JSON Schema:
+${JSON.stringify(ANALYSIS_SCHEMA)}
+- assessment: a short security assessment paragraph in ${language}.
+- suggestedFilename: a clean technical base name for the package, derived from the common name (e.g. wlc.example.com), without an extension.
+- readmeContent: a short README in ${language} explaining the files in the package (.crt certificate, .prv private key, .ca CA chain).`;
+
+// --- Validation ---
+
+// Parses a provider's answer; throws with the first schema violation
+export const validateAnalysis = (text: string): CertificateAnalysis => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Response is not valid JSON');
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('Response is not a JSON object');
+  const record = raw as Record<string, unknown>;
+  const extra = Object.keys(record).find(key => !(key in LIMITS));
+  if (extra) throw new Error(`Unexpected property "${extra}"`);
+
+  for (const key of Object.keys(LIMITS) as (keyof CertificateAnalysis)[]) {
+    const value = record[key];
+    if (value === undefined) throw new Error(`Missing property "${key}"`);
+    if (typeof value !== 'string') throw new Error(`"${key}" must be a string`);
+    if (!value.trim()) throw new Error(`"${key}" is empty`);
+    if (value.length > LIMITS[key]) throw new Error(`"${key}" is longer than ${LIMITS[key]} characters`);
+  }
+  if (!new RegExp(FILENAME_PATTERN).test(record.suggestedFilename as string) || (record.suggestedFilename as string).includes('..')) {
+    throw new Error(`"suggestedFilename" may only contain letters, digits, dots, hyphens and underscores`);
+  }
+  return {
+    assessment: record.assessment as string,
+    suggestedFilename: record.suggestedFilename as string,
+    readmeContent: record.readmeContent as string,
+  };
+};
+
+// Package name from a common name; also used when there is no analysis to suggest one
+export const filenameFromCommonName = (commonName: string) =>
+  commonName.replace(/\*/g, 'wildcard').replace(/[^a-zA-Z0-9.-]/g, '').replace(/^[.-]+/, '').toLowerCase() || 'cert';
+
+// --- Providers ---
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  defaultModel: string;
+  complete: (request: AnalysisRequest) => Promise<string>; // the raw answer text
+}
+
+const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.5-flash',
+  complete: async ({ system, prompt, model, apiKey }) => {
+    const key = apiKey || process.env.API_KEY;
+    if (!key) throw new Error('No Gemini API key: set GEMINI_API_KEY or enter a key');
+    // Created per request so a missing key only fails the analysis, not the app's startup
+    const ai = new GoogleGenAI({ apiKey: key });
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        systemInstruction: system,
+        responseMimeType: 'application/json',
+        // Gemini only takes the schema's shape; the length and pattern limits are checked afterwards
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: Object.fromEntries(Object.keys(LIMITS).map(key => [key, { type: Type.STRING }])),
+          required: ANALYSIS_SCHEMA.required,
+        },
+        temperature: 0,
+        abortSignal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      },
+    });
+    if (!response.text) throw new Error('Gemini returned an empty response');
+    return response.text;
+  },
+};
+
+// Any server with an OpenAI-style /chat/completions endpoint: OpenAI, Ollama, LM Studio, vLLM...
+const openAiProvider: AnalysisProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultModel: 'llama3.1',
+  complete: async ({ system, prompt, model, baseUrl, apiKey }) => {
+    if (!baseUrl) throw new Error('No endpoint URL configured');
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'system', content: system }, { role: 'user', content: prompt }],
+        response_format: { type: 'json_object' },
+        temperature: 0,
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) throw new Error(`Endpoint answered HTTP ${response.status}`);
+    let body: any;
+    try {
+      body = await response.json();
+    } catch (e) {
+      throw new Error('Endpoint did not return JSON');
+    }
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new Error('Endpoint response has no message content');
+    return content;
+  },
+};
+
+// Answers from the context alone, the same way every time; for offline use and testing
+const mockProvider: AnalysisProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  defaultModel: 'deterministic',
+  complete: async ({ context }) => {
+    const { leaf, chain, chainEndsAtRoot, lintFindings } = context;
+    const ru = context.language === LANGUAGE_NAMES.ru;
+    const until = leaf.notAfter.substring(0, 10);
+    const problems = lintFindings.filter(f => f.severity === 'error').length;
+    const assessment = ru
+      ? `${leaf.commonName}: ключ ${leaf.key}, действителен до ${until}, выпущен ${leaf.issuer}. Цепочка: ${chain.length} сертификат(ов)${chainEndsAtRoot ? ', заканчивается корневым' : ', корневой не найден'}. Замечаний линтера: ${lintFindings.length}, из них ошибок: ${problems}.`
+      : `${leaf.commonName}: ${leaf.key} key, valid until ${until}, issued by ${leaf.issuer}. Chain of ${chain.length} certificate(s)${chainEndsAtRoot ? ' ending at a root' : ' without a root'}. ${lintFindings.length} lint finding(s), ${problems} error(s).`;
+    const readmeContent = ru
+      ? "Пакет сертификатов\n\nСодержит:\n- .crt: Сертификат\n- .prv: Приватный ключ\n- .ca: Цепочка сертификатов"
+      : "Certificate Bundle\n\nContains:\n- .crt: Certificate\n- .prv: Private Key\n- .ca: Certificate Authority Chain";
+    return JSON.stringify({ assessment, suggestedFilename: filenameFromCommonName(leaf.commonName), readmeContent });
+  },
+};
+
+export const ANALYSIS_PROVIDERS: AnalysisProvider[] = [geminiProvider, openAiProvider, mockProvider];
+
+// --- Settings ---
+
+export const loadAnalysisSettings = (): AnalysisSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return {
+      provider: ANALYSIS_PROVIDERS.some(p => p.id === saved.provider) ? saved.provider : DEFAULT_ANALYSIS_SETTINGS.provider,
+      model: typeof saved.model === 'string' ? saved.model : DEFAULT_ANALYSIS_SETTINGS.model,
+      baseUrl: typeof saved.baseUrl === 'string' ? saved.baseUrl : DEFAULT_ANALYSIS_SETTINGS.baseUrl,
+    };
+  } catch (e) {
+    return DEFAULT_ANALYSIS_SETTINGS;
+  }
+};
+
+export const saveAnalysisSettings = (settings: AnalysisSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// --- Cache ---
+
+// Successful analyses for this session, oldest first. Failures are not kept, so they are retried.
+const cache = new Map<string, AnalysisOutcome>();
+
+// Leaf and chain fingerprints, language, the lint findings as prompted and the provider that would answer
+export const analysisCacheKey = (pems: string[], language: string, findings: LintFinding[], settings: AnalysisSettings): string =>
+  [
+    ...pems.map(certificateSha256),
+    language,
+    sha256Hex(JSON.stringify(describeFindings(findings))),
+    settings.provider,
+    settings.model.trim(),
+    settings.provider === 'openai' ? settings.baseUrl.trim() : '',
+  ].join('|');
+
+export const cachedAnalysis = (key: string): AnalysisOutcome | undefined => cache.get(key);
+
+export const cacheAnalysis = (key: string, outcome: AnalysisOutcome) => {
+  if (!outcome.analysis) return;
+  cache.delete(key);
+  cache.set(key, outcome);
+  if (cache.size > MAX_CACHED_ANALYSES) cache.delete(cache.keys().next().value!);
+};
+
+export const forgetAnalysis = (key: string) => {
+  cache.delete(key);
+};
+
+// --- Analysis ---
+
+// Never throws: a failed request or a rejected answer comes back as an outcome with the reason
+export const analyzeCertificate = async (context: AnalysisContext, settings: AnalysisSettings, apiKey: string = ''): Promise<AnalysisOutcome> => {
+  const provider = ANALYSIS_PROVIDERS.find(p => p.id === settings.provider) || geminiProvider;
+  const model = settings.model.trim() || provider.defaultModel;
+  const label = `${provider.id} / ${model}`;
+  let text: string;
+  try {
+    text = await provider.complete({
+      system: systemPrompt(context.language),
+      prompt: JSON.stringify(context, null, 2),
+      context,
+      model,
+      baseUrl: settings.baseUrl.trim(),
+      apiKey,
+    });
+  } catch (e: any) {
+    console.error("Analysis request failed:", e);
+    return { provider: label, error: e?.message || String(e) };
+  }
+  try {
+    return { provider: label, analysis: validateAnalysis(text) };
+  } catch (e: any) {
+    return { provider: label, error: `Rejected response: ${e.message}` };
+  }
+};
@@ -0,0 +1,108 @@
+import { CachedCertificate } from '../types';
+import { certificateSha256, loadCertificate, parseCertificate, verifyParent } from './cryptoService';
+import { authorityKeyId, nameKey } from './pathValidationService';
+
+// CA certificates fetched over AIA or uploaded while building chains, kept across sessions
+// so later chains resolve offline. Nothing here is trusted; every issuer is signature-checked.
+
+const DB_NAME = 'wing-trustpoint';
+const STORE = 'intermediates';
+const OID_SUBJECT_KEY_IDENTIFIER = '2.5.29.14';
+const OID_BASIC_CONSTRAINTS = '2.5.29.19';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'fingerprint' });
+        store.createIndex('subjectKey', 'subjectKey');
+        store.createIndex('ski', 'ski');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const toEntry = (pem: string, source: CachedCertificate['source']): CachedCertificate | null => {
+  const cert = loadCertificate(pem);
+  // Only CAs belong here; a leaf handed in as a chain member is skipped
+  const basicConstraints = cert.extensions.find(e => e.id === OID_BASIC_CONSTRAINTS);
+  if (!basicConstraints?.cA && cert.extensions.length > 0) return null;
+
+  const { info } = parseCertificate(pem);
+  return {
+    fingerprint: certificateSha256(pem),
+    pem: info.raw.replace(/\r\n/g, '\n'),
+    subject: info.commonName,
+    subjectKey: nameKey(cert.subject),
+    ski: cert.extensions.find(e => e.id === OID_SUBJECT_KEY_IDENTIFIER)?.subjectKeyIdentifier,
+    issuer: info.issuer,
+    notAfter: info.validTo.toISOString(),
+    source,
+    cachedAt: new Date().toISOString(),
+  };
+};
+
+// Stores the CAs among pems; ones already cached keep their original entry
+export const cacheCertificates = async (pems: string[], source: CachedCertificate['source']): Promise<void> => {
+  const entries = pems.flatMap(pem => {
+    try {
+      return toEntry(pem, source) || [];
+    } catch (e) {
+      return [];
+    }
+  });
+  if (entries.length === 0) return;
+  await run('readwrite', store => {
+    for (const entry of entries) {
+      const request = store.add(entry);
+      request.onerror = (e) => {
+        e.preventDefault(); // already cached: don't abort the other additions
+        e.stopPropagation();
+      };
+    }
+  });
+};
+
+export const listCachedCertificates = (): Promise<CachedCertificate[]> =>
+  run<CachedCertificate[]>('readonly', store => store.getAll());
+
+export const removeCachedCertificate = (fingerprint: string): Promise<void> =>
+  run<undefined>('readwrite', store => store.delete(fingerprint)).then(() => undefined);
+
+export const clearCache = (): Promise<void> =>
+  run<undefined>('readwrite', store => store.clear()).then(() => undefined);
+
+// A cached CA whose key signed childPem, looked up by the child's AKI and issuer DN.
+// Certificates in exclude (fingerprints) are never returned, so a walk cannot loop.
+export const findCachedIssuer = async (childPem: string, exclude: string[] = []): Promise<CachedCertificate | null> => {
+  const child = loadCertificate(childPem);
+  const akid = authorityKeyId(child);
+  const [byKeyId, byName] = await Promise.all([
+    akid ? run<CachedCertificate[]>('readonly', store => store.index('ski').getAll(akid)) : Promise.resolve([]),
+    run<CachedCertificate[]>('readonly', store => store.index('subjectKey').getAll(nameKey(child.issuer))),
+  ]);
+  const candidates = [...byKeyId, ...byName]
+    .filter(c => !exclude.includes(c.fingerprint) && verifyParent(childPem, c.pem))
+    .sort((a, b) => b.notAfter.localeCompare(a.notAfter));
+  return candidates[0] || null;
+};
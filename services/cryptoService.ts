@@ -1,13 +1,16 @@
 import forge from 'node-forge';
-import { CertificateInfo } from '../types';
+import { p256, p384 } from '@noble/curves/nist';
+import { ed25519 } from '@noble/curves/ed25519';
+import { CertificateInfo, SubjectAltNames, KeyAlgorithm, EcCurve, InputKind, SniffedInput, KeyFormat } from '../types';
+import { fetchWithRelay } from './fetchRelayService';
 
 // --- TAR Helper Functions ---
 
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
 function writeString(buffer: Uint8Array, offset: number, str: string, len: number): number {
-  let i = 0;
-  for (; i < len && i < str.length; i++) {
-    buffer[offset + i] = str.charCodeAt(i);
-  }
+  buffer.set(textEncoder.encode(str).subarray(0, len), offset);
   return offset + len;
 }
 
@@ -25,21 +28,23 @@ function writeOctal(buffer: Uint8Array, offset: number, len: number, val: number
   return offset + len;
 }
 
-function createTarHeader(filename: string, size: number): Uint8Array {
+// Owner is always 0/0 with no names and the mtime is supplied, so identical input gives identical bytes
+function createTarHeader(filename: string, size: number, mtime: number, type = '0', prefix = ''): Uint8Array {
   const block = new Uint8Array(512);
   let offset = 0;
 
   offset = writeString(block, offset, filename, 100); // name
   offset = writeOctal(block, offset, 8, 0o644);       // mode
-  offset = writeOctal(block, offset, 8, 0o1000);      // uid
-  offset = writeOctal(block, offset, 8, 0o1000);      // gid
+  offset = writeOctal(block, offset, 8, 0);           // uid
+  offset = writeOctal(block, offset, 8, 0);           // gid
   offset = writeOctal(block, offset, 12, size);       // size
-  offset = writeOctal(block, offset, 12, Math.floor(Date.now() / 1000)); // mtime
+  offset = writeOctal(block, offset, 12, mtime);      // mtime
   offset = writeString(block, offset, "        ", 8); // chksum placeholder
-  block[offset++] = 48; // type (0 = file)
+  block[offset++] = type.charCodeAt(0);               // typeflag
   offset = writeString(block, offset, "", 100);       // linkname
   offset = writeString(block, offset, "ustar", 6);    // ustar indicator
   offset = writeString(block, offset, "00", 2);       // ustar version
+  writeString(block, 345, prefix, 155);               // prefix, joined to name with '/'
 
   let chksum = 0;
   for (let i = 0; i < 512; i++) chksum += block[i];
@@ -48,23 +53,57 @@ function createTarHeader(filename: string, size: number): Uint8Array {
   return block;
 }
 
-export const createTarball = (files: { name: string; content: string | Uint8Array }[]): Uint8Array => {
+// Splits an ASCII path into ustar's prefix (155 bytes) and name (100 bytes) at a '/', or null if it doesn't fit
+function splitUstarPath(path: string): { prefix: string; name: string } | null {
+  if (!/^[\x20-\x7e]*$/.test(path)) return null;
+  if (path.length <= 100) return { prefix: '', name: path };
+  const cut = path.lastIndexOf('/', 155);
+  if (cut <= 0 || path.length - cut - 1 > 100 || cut === path.length - 1) return null;
+  return { prefix: path.substring(0, cut), name: path.substring(cut + 1) };
+}
+
+// One pax extended header record: "<length> <key>=<value>\n", where length counts its own digits
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = textEncoder.encode(body).length;
+  let length = bodyLength + 1;
+  while (length !== bodyLength + String(length).length) length = bodyLength + String(length).length;
+  return `${length}${body}`;
+}
+
+// Plain code unit order, independent of the browser's locale
+export const compareNames = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+function padToBlock(blocks: Uint8Array[], size: number) {
+  const padding = 512 - (size % 512);
+  if (padding < 512) blocks.push(new Uint8Array(padding));
+}
+
+// Members are written sorted by name with one mtime, so the same files always give the same archive
+export const createTarball = (files: { name: string; content: string | Uint8Array }[], mtime: Date = new Date()): Uint8Array => {
   let totalSize = 0;
   const blocks: Uint8Array[] = [];
+  const seconds = Math.max(0, Math.floor(mtime.getTime() / 1000));
 
-  files.forEach(file => {
+  [...files].sort((a, b) => compareNames(a.name, b.name)).forEach(file => {
     const contentBytes = typeof file.content === 'string' 
-      ? new TextEncoder().encode(file.content) 
+      ? textEncoder.encode(file.content) 
       : file.content;
-    
-    const header = createTarHeader(file.name, contentBytes.length);
-    blocks.push(header);
-    blocks.push(contentBytes);
 
-    const padding = 512 - (contentBytes.length % 512);
-    if (padding < 512) {
-      blocks.push(new Uint8Array(padding));
+    // Paths that fit neither name nor prefix+name (or aren't ASCII) go in a pax 'x' header first
+    let split = splitUstarPath(file.name);
+    if (!split) {
+      const pax = textEncoder.encode(paxRecord('path', file.name));
+      const fallback = file.name.replace(/[^\x20-\x7e]/g, '_').slice(-100);
+      blocks.push(createTarHeader(`PaxHeader/${fallback}`.slice(0, 100), pax.length, seconds, 'x'));
+      blocks.push(pax);
+      padToBlock(blocks, pax.length);
+      split = { prefix: '', name: fallback };
     }
+
+    blocks.push(createTarHeader(split.name, contentBytes.length, seconds, '0', split.prefix));
+    blocks.push(contentBytes);
+    padToBlock(blocks, contentBytes.length);
   });
 
   blocks.push(new Uint8Array(1024));
@@ -81,40 +120,149 @@ export const createTarball = (files: { name: string; content: string | Uint8Arra
   return result;
 };
 
+// --- Gzip ---
+
+// Both directions run through the browser's CompressionStream in chunks, so large bundles don't block the tab
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream, maxBytes = Infinity): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  if (maxBytes === Infinity) return new Uint8Array(await new Response(stream).arrayBuffer());
+
+  // Read chunk by chunk so a decompression bomb is stopped before it fills memory
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new TarError('limit', `Decompressed package exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+  const result = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(c => { result.set(c, offset); offset += c.length; });
+  return result;
+};
+
+export const isGzip = (bytes: Uint8Array): boolean => bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+// The gzip header's mtime and OS byte are cleared so output doesn't depend on when or where it was made
+export const gzip = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const compressed = await pipeBytes(bytes, new CompressionStream('gzip'));
+  compressed.fill(0, 4, 8);
+  compressed[9] = 255; // OS: unknown
+  return compressed;
+};
+
+export const gunzip = (bytes: Uint8Array, maxBytes?: number): Promise<Uint8Array> => pipeBytes(bytes, new DecompressionStream('gzip'), maxBytes);
+
 // --- TAR Reading Logic ---
 
-interface ExtractedFile {
-  name: string;
-  content: string; // Assuming text content for certs/keys
+export interface ExtractedFile {
+  name: string; // as stored in the archive, not sanitized
+  type: 'file' | 'directory' | 'link' | 'other';
+  content: string; // UTF-8 view, for PEM members
+  data: Uint8Array; // exact bytes, for binary members (DER, PFX)
   size: number;
 }
 
-export const untar = (arrayBuffer: ArrayBuffer): ExtractedFile[] => {
-  const files: ExtractedFile[] = [];
-  const uint8 = new Uint8Array(arrayBuffer);
+// Packages come from outside, so reading is bounded. Certificates and keys are a few KB each.
+export interface TarLimits {
+  maxMembers: number;
+  maxMemberSize: number;
+  maxTotalSize: number;
+  maxPathLength: number;
+}
+
+export const DEFAULT_TAR_LIMITS: TarLimits = {
+  maxMembers: 64,
+  maxMemberSize: 1024 * 1024,
+  maxTotalSize: 8 * 1024 * 1024,
+  maxPathLength: 1024,
+};
+
+export type TarErrorCode = 'corrupt-header' | 'invalid-size' | 'truncated' | 'limit';
+
+export class TarError extends Error {
+  constructor(public code: TarErrorCode, message: string) {
+    super(message);
+    this.name = 'TarError';
+  }
+}
+
+const readField = (block: Uint8Array, start: number, len: number): string => {
+  let end = start;
+  while (end < start + len && block[end] !== 0) end++;
+  return textDecoder.decode(block.subarray(start, end));
+};
+
+// Octal, space/NUL padded, or GNU base-256 when the high bit of the first byte is set
+const readNumber = (block: Uint8Array, start: number, len: number): number => {
+  if (block[start] & 0x80) {
+    let value = block[start] & 0x7f;
+    for (let i = 1; i < len; i++) value = value * 256 + block[start + i];
+    return value;
+  }
+  const digits = readField(block, start, len).trim();
+  if (!digits) return 0;
+  return /^[0-7]+$/.test(digits) ? parseInt(digits, 8) : NaN;
+};
+
+// The checksum is the byte sum with the checksum field read as spaces; some old tars summed signed bytes
+const checksumMatches = (header: Uint8Array): boolean => {
+  const stored = readNumber(header, 148, 8);
+  let unsigned = 0;
+  let signed = 0;
+  for (let i = 0; i < 512; i++) {
+    const b = i >= 148 && i < 156 ? 32 : header[i];
+    unsigned += b;
+    signed += b > 127 ? b - 256 : b;
+  }
+  return stored === unsigned || stored === signed;
+};
+
+const parsePaxRecords = (data: Uint8Array): Record<string, string> => {
+  const records: Record<string, string> = {};
   let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = space > offset ? parseInt(textDecoder.decode(data.subarray(offset, space)), 10) : NaN;
+    if (!(length > 0) || offset + length > data.length) break;
+    const record = textDecoder.decode(data.subarray(space + 1, offset + length - 1)); // drop the trailing newline
+    const eq = record.indexOf('=');
+    if (eq > 0) records[record.substring(0, eq)] = record.substring(eq + 1);
+    offset += length;
+  }
+  return records;
+};
 
-  const readString = (start: number, len: number) => {
-    let end = start;
-    while (end < start + len && uint8[end] !== 0) end++;
-    return new TextDecoder().decode(uint8.slice(start, end));
-  };
+const memberType = (type: string): ExtractedFile['type'] =>
+  type === '0' || type === '\0' || type === ' ' || type === '7' ? 'file' :
+  type === '5' ? 'directory' :
+  type === '1' || type === '2' ? 'link' :
+  'other';
 
-  const readOctal = (start: number, len: number) => {
-     const str = readString(start, len);
-     return parseInt(str, 8);
-  };
+// Reads ustar, GNU and pax archives. Throws a TarError on a corrupt header, a member running
+// past the end or an archive over the limits.
+export const untar = (data: ArrayBuffer | Uint8Array, limits: TarLimits = DEFAULT_TAR_LIMITS): ExtractedFile[] => {
+  const files: ExtractedFile[] = [];
+  const uint8 = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let offset = 0;
+  let headers = 0;
+  let totalSize = 0;
+
+  let globalPax: Record<string, string> = {};
+  let nextPax: Record<string, string> = {}; // pax 'x' header for the next member only
+  let longName: string | null = null; // GNU 'L' entry for the next member
 
   while (offset + 512 <= uint8.length) {
+    const header = uint8.subarray(offset, offset + 512);
+
     // Check for end of archive (two null blocks)
-    let isNullBlock = true;
-    for(let i=0; i<512; i++) {
-        if(uint8[offset + i] !== 0) {
-            isNullBlock = false;
-            break;
-        }
-    }
-    if (isNullBlock) {
+    if (header.every(b => b === 0)) {
         // Check next block to confirm end
         if (offset + 1024 <= uint8.length && uint8[offset + 512] === 0) break;
         // Otherwise skip this padding block
@@ -122,64 +270,648 @@ export const untar = (arrayBuffer: ArrayBuffer): ExtractedFile[] => {
         continue;
     }
 
-    const name = readString(offset, 100);
-    const size = readOctal(offset + 124, 12);
-    const type = String.fromCharCode(uint8[offset + 156]);
+    if (!checksumMatches(header)) {
+      throw new TarError('corrupt-header', `Corrupt tar header at offset ${offset} (checksum mismatch)`);
+    }
+    // Extension headers count too, so a stream of pax records can't run unbounded
+    if (++headers > limits.maxMembers * 3) {
+      throw new TarError('limit', `Archive has more than ${limits.maxMembers} members`);
+    }
+
+    const type = String.fromCharCode(header[156]);
+    const pax = { ...globalPax, ...nextPax };
+    const size = pax.size !== undefined
+      ? (/^\d+$/.test(pax.size) ? parseInt(pax.size, 10) : NaN)
+      : readNumber(header, 124, 12);
+    if (!Number.isSafeInteger(size) || size < 0) {
+      throw new TarError('invalid-size', `Invalid member size at offset ${offset}`);
+    }
+    if (size > limits.maxMemberSize) {
+      throw new TarError('limit', `Member at offset ${offset} is ${size} bytes, over the ${limits.maxMemberSize} byte limit`);
+    }
+    totalSize += size;
+    if (totalSize > limits.maxTotalSize) {
+      throw new TarError('limit', `Archive content exceeds ${limits.maxTotalSize} bytes`);
+    }
 
-    // Calculate next block start
     const contentStart = offset + 512;
-    
-    if (type === '0' || type === '\0' || type === ' ') {
-        const contentBytes = uint8.slice(contentStart, contentStart + size);
-        files.push({
-            name,
-            content: new TextDecoder().decode(contentBytes),
-            size
-        });
+    if (contentStart + size > uint8.length) {
+      throw new TarError('truncated', `Tar member at offset ${offset} runs past the end of the archive`);
     }
+    const content = uint8.slice(contentStart, contentStart + size);
 
     // Move to next header (size rounded up to 512 blocks)
     offset = contentStart + (Math.ceil(size / 512) * 512);
+
+    if (type === 'x') { nextPax = parsePaxRecords(content); continue; }
+    if (type === 'g') { globalPax = { ...globalPax, ...parsePaxRecords(content) }; continue; }
+    if (type === 'L') { longName = readField(content, 0, content.length); continue; }
+    if (type === 'K') continue; // GNU long link name, irrelevant for regular files
+
+    // POSIX ustar ("ustar\0") has a prefix field; old GNU ("ustar  ") uses those bytes for other data
+    const prefix = readField(header, 257, 6) === 'ustar' ? readField(header, 345, 155) : '';
+    const headerName = readField(header, 0, 100);
+    const name = pax.path ?? longName ?? (prefix ? `${prefix}/${headerName}` : headerName);
+    nextPax = {};
+    longName = null;
+
+    if (name.length > limits.maxPathLength) {
+      throw new TarError('limit', `Member name longer than ${limits.maxPathLength} characters: ${name.slice(0, 60)}...`);
+    }
+    if (files.length >= limits.maxMembers) {
+      throw new TarError('limit', `Archive has more than ${limits.maxMembers} members`);
+    }
+    files.push({ name, type: memberType(type), content: textDecoder.decode(content), data: content, size });
   }
 
   return files;
 };
 
+// --- Key & Signature Algorithms ---
+
+type HashName = 'md5' | 'sha1' | 'sha256' | 'sha384' | 'sha512';
+
+const OID_RSA_ENCRYPTION = '1.2.840.113549.1.1.1';
+const OID_EC_PUBLIC_KEY = '1.2.840.10045.2.1';
+const OID_ED25519 = '1.3.101.112';
+
+const EC_CURVES: Record<string, { name: EcCurve; size: number; impl: typeof p256 }> = {
+  '1.2.840.10045.3.1.7': { name: 'P-256', size: 256, impl: p256 },
+  '1.3.132.0.34': { name: 'P-384', size: 384, impl: p384 },
+};
+
+const SIGNATURE_ALGORITHMS: Record<string, { key: KeyAlgorithm; hash?: HashName }> = {
+  '1.2.840.113549.1.1.4': { key: 'RSA', hash: 'md5' },
+  '1.2.840.113549.1.1.5': { key: 'RSA', hash: 'sha1' },
+  '1.2.840.113549.1.1.11': { key: 'RSA', hash: 'sha256' },
+  '1.2.840.113549.1.1.12': { key: 'RSA', hash: 'sha384' },
+  '1.2.840.113549.1.1.13': { key: 'RSA', hash: 'sha512' },
+  '1.2.840.10045.4.1': { key: 'ECDSA', hash: 'sha1' },
+  '1.2.840.10045.4.3.2': { key: 'ECDSA', hash: 'sha256' },
+  '1.2.840.10045.4.3.3': { key: 'ECDSA', hash: 'sha384' },
+  '1.2.840.10045.4.3.4': { key: 'ECDSA', hash: 'sha512' },
+  [OID_ED25519]: { key: 'Ed25519' },
+};
+
+// Public half of a key pair, in whichever form its algorithm needs for comparison and verification
+export interface PublicKeyDetails {
+  algorithm: KeyAlgorithm;
+  size: number;
+  curve?: EcCurve;
+  rsa?: forge.pki.rsa.PublicKey;
+  point?: Uint8Array; // EC point or raw Ed25519 key
+}
+
+// node-forge works on binary strings, @noble/curves on byte arrays
+const binaryToBytes = (bin: string): Uint8Array => Uint8Array.from(bin, c => c.charCodeAt(0));
+
+const bytesToHex = (bytes: Uint8Array): string => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const getCurve = (oid: string) => {
+  const curve = EC_CURVES[oid];
+  if (!curve) throw new Error(`Unsupported elliptic curve (OID ${oid})`);
+  return curve;
+};
+
+const getCurveByName = (name: EcCurve) => Object.values(EC_CURVES).find(c => c.name === name)!.impl;
+
+// BIT STRING contents (undecoded) carry a leading "unused bits" byte
+export const bitStringBytes = (obj: any): string => obj.value.substring(1);
+
+const readPublicKey = (spki: any): PublicKeyDetails => {
+  const algorithm = spki.value[0];
+  const oid = forge.asn1.derToOid(algorithm.value[0].value);
+
+  if (oid === OID_RSA_ENCRYPTION) {
+    // Round-trip through DER so forge can decode the nested RSAPublicKey itself
+    const rsa = forge.pki.publicKeyFromAsn1(forge.asn1.fromDer(forge.asn1.toDer(spki)));
+    return { algorithm: 'RSA', size: rsa.n.bitLength(), rsa };
+  }
+  if (oid === OID_EC_PUBLIC_KEY) {
+    const curve = getCurve(forge.asn1.derToOid(algorithm.value[1].value));
+    return { algorithm: 'ECDSA', size: curve.size, curve: curve.name, point: binaryToBytes(bitStringBytes(spki.value[1])) };
+  }
+  if (oid === OID_ED25519) {
+    return { algorithm: 'Ed25519', size: 256, point: binaryToBytes(bitStringBytes(spki.value[1])) };
+  }
+  throw new Error(`Unsupported public key algorithm (OID ${oid})`);
+};
+
+// Reads a SEC1 ECPrivateKey and derives its public point
+const ecPublicFromSec1 = (ecPrivateKey: any, curveOid?: string): PublicKeyDetails => {
+  const params = ecPrivateKey.value.find((v: any) => v.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && v.type === 0);
+  const oid = curveOid || (params && forge.asn1.derToOid(params.value[0].value));
+  if (!oid) throw new Error('EC private key does not name its curve');
+  const curve = getCurve(oid);
+  const scalar = binaryToBytes(ecPrivateKey.value[1].value);
+  return { algorithm: 'ECDSA', size: curve.size, curve: curve.name, point: curve.impl.getPublicKey(scalar, false) };
+};
+
+const readPrivateKey = (keyPem: string): PublicKeyDetails => {
+  const block = forge.pem.decode(keyPem).find((b: any) => b.type.endsWith('PRIVATE KEY'));
+  if (!block) throw new Error('No private key found');
+  if (block.type === 'ENCRYPTED PRIVATE KEY' || block.procType?.type === 'ENCRYPTED') {
+    throw new Error('Private key is encrypted');
+  }
+
+  if (block.type === 'RSA PRIVATE KEY') {
+    const key = forge.pki.privateKeyFromPem(keyPem);
+    return { algorithm: 'RSA', size: key.n.bitLength(), rsa: forge.pki.setRsaPublicKey(key.n, key.e) };
+  }
+  if (block.type === 'EC PRIVATE KEY') {
+    return ecPublicFromSec1(forge.asn1.fromDer(block.body));
+  }
+  if (block.type !== 'PRIVATE KEY') {
+    throw new Error(`Unsupported private key type: ${block.type}`);
+  }
+
+  // PKCS#8 PrivateKeyInfo
+  const info = forge.asn1.fromDer(block.body);
+  const algorithm = info.value[1];
+  const oid = forge.asn1.derToOid(algorithm.value[0].value);
+  const inner = info.value[2].value;
+
+  if (oid === OID_RSA_ENCRYPTION) {
+    const key = forge.pki.privateKeyFromAsn1(info);
+    return { algorithm: 'RSA', size: key.n.bitLength(), rsa: forge.pki.setRsaPublicKey(key.n, key.e) };
+  }
+  if (oid === OID_EC_PUBLIC_KEY) {
+    return ecPublicFromSec1(forge.asn1.fromDer(inner), forge.asn1.derToOid(algorithm.value[1].value));
+  }
+  if (oid === OID_ED25519) {
+    const seed = binaryToBytes(forge.asn1.fromDer(inner).value);
+    return { algorithm: 'Ed25519', size: 256, point: ed25519.getPublicKey(seed) };
+  }
+  throw new Error(`Unsupported private key algorithm (OID ${oid})`);
+};
+
+const samePublicKey = (a: PublicKeyDetails, b: PublicKeyDetails): boolean => {
+  if (a.algorithm !== b.algorithm) return false;
+  if (a.algorithm === 'RSA') {
+    return a.rsa!.n.toString(16) === b.rsa!.n.toString(16) && a.rsa!.e.toString(16) === b.rsa!.e.toString(16);
+  }
+  if (a.curve !== b.curve) return false;
+  return bytesToHex(a.point!) === bytesToHex(b.point!);
+};
+
+// --- Encrypted Private Keys ---
+
+export interface KeyEncryptionInfo {
+  format: 'PKCS#8' | 'OpenSSL legacy';
+  cipher: string;
+  kdf: string;
+  warnings: string[];
+}
+
+const OID_PBES2 = '1.2.840.113549.1.5.13';
+const OID_PBKDF2 = '1.2.840.113549.1.5.12';
+const OID_SCRYPT = '1.3.6.1.4.1.11591.4.11';
+
+const PBES2_CIPHERS: Record<string, string> = {
+  '2.16.840.1.101.3.4.1.2': 'AES-128-CBC',
+  '2.16.840.1.101.3.4.1.22': 'AES-192-CBC',
+  '2.16.840.1.101.3.4.1.42': 'AES-256-CBC',
+  '1.2.840.113549.3.7': 'DES-EDE3-CBC',
+  '1.3.14.3.2.7': 'DES-CBC',
+};
+
+const PBKDF2_PRFS: Record<string, string> = {
+  '1.2.840.113549.2.7': 'HMAC-SHA1',
+  '1.2.840.113549.2.8': 'HMAC-SHA224',
+  '1.2.840.113549.2.9': 'HMAC-SHA256',
+  '1.2.840.113549.2.10': 'HMAC-SHA384',
+  '1.2.840.113549.2.11': 'HMAC-SHA512',
+};
+
+// PKCS#5 v1.5 and PKCS#12 password-based schemes: the OID fixes both KDF and cipher
+const PBES1_SCHEMES: Record<string, { kdf: string; cipher: string }> = {
+  '1.2.840.113549.1.5.3': { kdf: 'PBKDF1-MD5', cipher: 'DES-CBC' },
+  '1.2.840.113549.1.5.6': { kdf: 'PBKDF1-MD5', cipher: 'RC2-64-CBC' },
+  '1.2.840.113549.1.5.10': { kdf: 'PBKDF1-SHA1', cipher: 'DES-CBC' },
+  '1.2.840.113549.1.5.11': { kdf: 'PBKDF1-SHA1', cipher: 'RC2-64-CBC' },
+  '1.2.840.113549.1.12.1.3': { kdf: 'PKCS#12 KDF (SHA-1)', cipher: 'DES-EDE3-CBC' },
+  '1.2.840.113549.1.12.1.4': { kdf: 'PKCS#12 KDF (SHA-1)', cipher: 'DES-EDE-CBC' },
+  '1.2.840.113549.1.12.1.5': { kdf: 'PKCS#12 KDF (SHA-1)', cipher: 'RC2-128-CBC' },
+  '1.2.840.113549.1.12.1.6': { kdf: 'PKCS#12 KDF (SHA-1)', cipher: 'RC2-40-CBC' },
+};
+
+// OpenSSL "Proc-Type: 4,ENCRYPTED" keys: DEK-Info cipher name -> key length and forge cipher
+const LEGACY_PEM_CIPHERS: Record<string, { keyLength: number; forgeCipher: string }> = {
+  'DES-CBC': { keyLength: 8, forgeCipher: 'DES-CBC' },
+  'DES-EDE3-CBC': { keyLength: 24, forgeCipher: '3DES-CBC' },
+  'AES-128-CBC': { keyLength: 16, forgeCipher: 'AES-CBC' },
+  'AES-192-CBC': { keyLength: 24, forgeCipher: 'AES-CBC' },
+  'AES-256-CBC': { keyLength: 32, forgeCipher: 'AES-CBC' },
+};
+
+const MIN_PBKDF2_ITERATIONS = 2048; // OpenSSL 3 default
+
+const keyEncryptionWarnings = (cipher: string, kdf: string, iterations?: number): string[] => {
+  const warnings: string[] = [];
+  if (cipher === 'DES-CBC' || cipher.startsWith('RC2')) {
+    warnings.push(`${cipher} is an obsolete cipher with a brute-forceable key size.`);
+  }
+  if (kdf.startsWith('EVP_BytesToKey') || kdf.startsWith('PBKDF1-MD5')) {
+    warnings.push('MD5-based key derivation makes passphrase guessing cheap.');
+  }
+  if (iterations !== undefined && iterations < MIN_PBKDF2_ITERATIONS) {
+    warnings.push(`Only ${iterations} key derivation iterations (at least ${MIN_PBKDF2_ITERATIONS} recommended).`);
+  }
+  return warnings;
+};
+
+const findKeyBlock = (pem: string) => forge.pem.decode(pem).find((b: any) => b.type.endsWith('PRIVATE KEY'));
+
+export const isEncryptedKey = (pem: string): boolean => {
+  try {
+    const block = findKeyBlock(pem);
+    return !!block && (block.type === 'ENCRYPTED PRIVATE KEY' || block.procType?.type === 'ENCRYPTED');
+  } catch (e) {
+    return false;
+  }
+};
+
+// Reports how an encrypted key is protected, without needing its passphrase
+export const describeKeyEncryption = (pem: string): KeyEncryptionInfo => {
+  const block = findKeyBlock(pem);
+  if (!block) throw new Error('No private key found');
+
+  if (block.procType?.type === 'ENCRYPTED') {
+    const cipher = block.dekInfo.algorithm;
+    const kdf = 'EVP_BytesToKey (MD5, 1 iteration)';
+    return { format: 'OpenSSL legacy', cipher, kdf, warnings: keyEncryptionWarnings(cipher, kdf) };
+  }
+
+  // EncryptedPrivateKeyInfo ::= SEQUENCE { encryptionAlgorithm AlgorithmIdentifier, encryptedData OCTET STRING }
+  const algorithm = forge.asn1.fromDer(block.body).value[0];
+  const oid = forge.asn1.derToOid(algorithm.value[0].value);
+
+  if (oid === OID_PBES2) {
+    const [kdfAlg, encAlg] = algorithm.value[1].value;
+    const kdfOid = forge.asn1.derToOid(kdfAlg.value[0].value);
+    const encOid = forge.asn1.derToOid(encAlg.value[0].value);
+    const cipher = PBES2_CIPHERS[encOid] || forge.pki.oids[encOid] || encOid;
+
+    if (kdfOid === OID_PBKDF2) {
+      const params = kdfAlg.value[1].value;
+      const iterations = parseInt(forge.util.bytesToHex(params[1].value), 16);
+      // prf is the last optional field and defaults to hmacWithSHA1
+      const prfAlg = params.find((p: any, i: number) => i > 1 && p.type === forge.asn1.Type.SEQUENCE);
+      const prf = prfAlg ? PBKDF2_PRFS[forge.asn1.derToOid(prfAlg.value[0].value)] || 'unknown PRF' : 'HMAC-SHA1';
+      const kdf = `PBKDF2-${prf}, ${iterations} iterations`;
+      return { format: 'PKCS#8', cipher, kdf, warnings: keyEncryptionWarnings(cipher, kdf, iterations) };
+    }
+    const kdf = kdfOid === OID_SCRYPT ? 'scrypt' : forge.pki.oids[kdfOid] || kdfOid;
+    return { format: 'PKCS#8', cipher, kdf, warnings: keyEncryptionWarnings(cipher, kdf) };
+  }
+
+  const scheme = PBES1_SCHEMES[oid];
+  if (scheme) {
+    const iterations = parseInt(forge.util.bytesToHex(algorithm.value[1].value[1].value), 16);
+    const kdf = `${scheme.kdf}, ${iterations} iterations`;
+    return { format: 'PKCS#8', cipher: scheme.cipher, kdf, warnings: keyEncryptionWarnings(scheme.cipher, kdf, iterations) };
+  }
+  return { format: 'PKCS#8', cipher: forge.pki.oids[oid] || oid, kdf: 'unknown', warnings: [] };
+};
+
+// A wrong passphrase, as opposed to a key that cannot be read or decrypted at all
+export class PassphraseError extends Error {
+  constructor() {
+    super('Incorrect passphrase.');
+    this.name = 'PassphraseError';
+  }
+}
+
+// Decrypts in memory and returns the same key unencrypted (PKCS#8, or the legacy key's own PEM type)
+export const decryptPrivateKey = (pem: string, passphrase: string): string => {
+  const block = findKeyBlock(pem);
+  if (!block) throw new Error('No private key found');
+
+  if (block.procType?.type === 'ENCRYPTED') {
+    const spec = LEGACY_PEM_CIPHERS[block.dekInfo.algorithm];
+    if (!spec) throw new Error(`Unsupported key encryption: ${block.dekInfo.algorithm}`);
+    const iv = forge.util.hexToBytes(block.dekInfo.parameters);
+    // EVP_BytesToKey with MD5, salted with the first 8 bytes of the IV
+    const key = forge.pbe.opensslDeriveBytes(passphrase, iv.substring(0, 8), spec.keyLength);
+    const decipher = forge.cipher.createDecipher(spec.forgeCipher, key);
+    decipher.start({ iv });
+    decipher.update(forge.util.createBuffer(block.body));
+    try {
+      if (!decipher.finish()) throw new Error('Bad padding');
+      const der = decipher.output.getBytes();
+      forge.asn1.fromDer(der);
+      return forge.pem.encode({ type: block.type, body: der });
+    } catch (e) {
+      throw new PassphraseError();
+    }
+  }
+
+  const encrypted = forge.asn1.fromDer(block.body);
+  let info: any;
+  try {
+    info = forge.pki.decryptPrivateKeyInfo(encrypted, passphrase);
+  } catch (e: any) {
+    // forge throws for schemes it cannot handle and for garbage plaintext
+    if (e?.message?.includes('nsupported')) throw new Error(`Unsupported key encryption: ${describeKeyEncryption(pem).kdf}`);
+    info = null;
+  }
+  if (!info) throw new PassphraseError();
+  return forge.pki.privateKeyInfoToPem(info);
+};
+
+// How a packaged key is encrypted: 'legacy' is the OpenSSL traditional PEM that WiNG's
+// `crypto pki import trustpoint ... passphrase` reads, 'pkcs8' an ENCRYPTED PRIVATE KEY (PBES2)
+export type KeyProtection = 'legacy' | 'pkcs8';
+
+const KEY_PBKDF2_ITERATIONS = 10000;
+
+// Unencrypted key as a PKCS#8 PrivateKeyInfo ASN.1 object
+const toPrivateKeyInfo = (block: any): any => {
+  const { asn1 } = forge;
+  if (block.type === 'PRIVATE KEY') return asn1.fromDer(block.body);
+  if (block.type === 'RSA PRIVATE KEY') return forge.pki.wrapRsaPrivateKey(asn1.fromDer(block.body));
+  if (block.type === 'EC PRIVATE KEY') {
+    const ecPrivateKey = asn1.fromDer(block.body);
+    const params = ecPrivateKey.value.find((v: any) => v.tagClass === asn1.Class.CONTEXT_SPECIFIC && v.type === 0);
+    if (!params) throw new Error('EC private key does not name its curve');
+    return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(0).getBytes()),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(OID_EC_PUBLIC_KEY).getBytes()),
+        params.value[0],
+      ]),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, block.body),
+    ]);
+  }
+  throw new Error(`Unsupported private key type: ${block.type}`);
+};
+
+// Unencrypted key in its algorithm-specific form (PKCS#1 / SEC1), or null when it has none (Ed25519)
+const toTraditionalKey = (block: any): { type: string; der: string } | null => {
+  const { asn1 } = forge;
+  if (block.type === 'RSA PRIVATE KEY' || block.type === 'EC PRIVATE KEY') return { type: block.type, der: block.body };
+
+  const info = asn1.fromDer(block.body);
+  const algorithm = info.value[1];
+  const oid = asn1.derToOid(algorithm.value[0].value);
+  if (oid === OID_RSA_ENCRYPTION) return { type: 'RSA PRIVATE KEY', der: info.value[2].value };
+  if (oid !== OID_EC_PUBLIC_KEY) return null;
+
+  // PKCS#8 usually leaves the curve to the outer AlgorithmIdentifier; SEC1 on its own must carry it
+  const ecPrivateKey = asn1.fromDer(info.value[2].value);
+  if (!ecPrivateKey.value.some((v: any) => v.tagClass === asn1.Class.CONTEXT_SPECIFIC && v.type === 0)) {
+    ecPrivateKey.value.splice(2, 0, asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [algorithm.value[1]]));
+  }
+  return { type: 'EC PRIVATE KEY', der: asn1.toDer(ecPrivateKey).getBytes() };
+};
+
+// Rewrites an unencrypted key as PKCS#8 or in its traditional form. Ed25519 keys stay PKCS#8.
+export const convertPrivateKey = (pem: string, format: KeyFormat): string => {
+  if (format === 'original') return pem;
+  const block = findKeyBlock(pem);
+  if (!block) throw new Error('No private key found');
+  if (isEncryptedKey(pem)) throw new Error('Private key is encrypted');
+
+  const traditional = format === 'pkcs1' ? toTraditionalKey(block) : null;
+  if (traditional) return forge.pem.encode({ type: traditional.type, body: traditional.der });
+  return forge.pki.privateKeyInfoToPem(toPrivateKeyInfo(block));
+};
+
+// Encrypts an unencrypted key with AES-256-CBC. Ed25519 keys have no legacy form and always get PKCS#8.
+export const encryptPrivateKey = (pem: string, passphrase: string, protection: KeyProtection = 'legacy'): string => {
+  const block = findKeyBlock(pem);
+  if (!block) throw new Error('No private key found');
+  if (isEncryptedKey(pem)) throw new Error('Private key is already encrypted');
+
+  const traditional = protection === 'legacy' ? toTraditionalKey(block) : null;
+  if (traditional) {
+    const iv = forge.random.getBytesSync(16);
+    const key = forge.pbe.opensslDeriveBytes(passphrase, iv.substring(0, 8), 32);
+    const cipher = forge.cipher.createCipher('AES-CBC', key);
+    cipher.start({ iv });
+    cipher.update(forge.util.createBuffer(traditional.der));
+    cipher.finish();
+    return forge.pem.encode({
+      type: traditional.type,
+      procType: { version: '4', type: 'ENCRYPTED' },
+      dekInfo: { algorithm: 'AES-256-CBC', parameters: forge.util.bytesToHex(iv).toUpperCase() },
+      body: cipher.output.getBytes(),
+    });
+  }
+
+  const encrypted = forge.pki.encryptPrivateKeyInfo(toPrivateKeyInfo(block), passphrase, {
+    algorithm: 'aes256',
+    count: KEY_PBKDF2_ITERATIONS,
+    prfAlgorithm: 'sha256',
+  });
+  return forge.pki.encryptedPrivateKeyToPem(encrypted);
+};
+
 // --- X.509 Logic ---
 
+// Signed ASN.1 structure (certificate, CRL, OCSP response): the signed bytes and their signature
+export interface SignedData {
+  tbs: string; // DER of the signed part
+  signatureOid: string;
+  signature: string;
+}
+
+// Structural view of a certificate, decoded without forge's RSA-only certificate reader
+export interface DecodedCertificate extends SignedData {
+  der: string; // binary string
+  version: number; // 1-based, as displayed
+  serialNumber: string;
+  issuer: any[];
+  subject: any[];
+  subjectDer: string; // DER of the subject Name
+  publicKeyBits: string; // subjectPublicKey BIT STRING contents
+  publicKeyInfo: string; // DER of the SubjectPublicKeyInfo
+  notBefore: Date;
+  notAfter: Date;
+  extensions: any[];
+  publicKey: PublicKeyDetails;
+}
+
+export const readTime = (obj: any): Date =>
+  obj.type === forge.asn1.Type.UTCTIME ? forge.asn1.utcTimeToDate(obj.value) : forge.asn1.generalizedTimeToDate(obj.value);
+
+const decodeCertificate = (der: string): DecodedCertificate => {
+  // Keep BIT STRINGs raw: signatures and EC points are byte payloads, not nested ASN.1
+  const root = forge.asn1.fromDer(der, { decodeBitStrings: false });
+  const [tbsCert, signatureAlgorithm, signatureValue] = root.value;
+  const fields = tbsCert.value;
+
+  let i = 0;
+  let version = 1;
+  if (fields[0].tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && fields[0].type === 0) { // [0] version
+    version = forge.asn1.derToInteger(fields[0].value[0].value) + 1;
+    i++;
+  }
+  const serial = fields[i++];
+  i++; // signature (repeated in the outer structure)
+  const issuer = fields[i++];
+  const validity = fields[i++];
+  const subject = fields[i++];
+  const spki = fields[i++];
+  const extensions = fields.slice(i).find((f: any) => f.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && f.type === 3);
+
+  return {
+    der,
+    version,
+    tbs: forge.asn1.toDer(tbsCert).getBytes(),
+    serialNumber: forge.util.bytesToHex(serial.value),
+    signatureOid: forge.asn1.derToOid(signatureAlgorithm.value[0].value),
+    signature: bitStringBytes(signatureValue),
+    issuer: forge.pki.RDNAttributesAsArray(issuer),
+    subject: forge.pki.RDNAttributesAsArray(subject),
+    subjectDer: forge.asn1.toDer(subject).getBytes(),
+    publicKeyBits: bitStringBytes(spki.value[1]),
+    publicKeyInfo: forge.asn1.toDer(spki).getBytes(),
+    notBefore: readTime(validity.value[0]),
+    notAfter: readTime(validity.value[1]),
+    extensions: extensions ? forge.pki.certificateExtensionsFromAsn1(extensions) : [],
+    publicKey: readPublicKey(spki),
+  };
+};
+
+export const verifySignature = (cert: SignedData, issuerKey: PublicKeyDetails): boolean => {
+  const alg = SIGNATURE_ALGORITHMS[cert.signatureOid];
+  if (!alg || alg.key !== issuerKey.algorithm) return false;
+
+  if (alg.key === 'Ed25519') {
+    return ed25519.verify(binaryToBytes(cert.signature), binaryToBytes(cert.tbs), issuerKey.point!);
+  }
+
+  const md = forge.md[alg.hash!].create();
+  md.update(cert.tbs);
+  const digest = md.digest().getBytes();
+
+  if (alg.key === 'RSA') {
+    return issuerKey.rsa!.verify(digest, cert.signature);
+  }
+  return getCurveByName(issuerKey.curve!).verify(binaryToBytes(cert.signature), binaryToBytes(digest), issuerKey.point!, {
+    prehash: false,
+    lowS: false,
+    format: 'der',
+  });
+};
+
 const normalizePem = (pem: string) => {
-    if (!pem.includes('-----BEGIN CERTIFICATE-----') && !pem.includes('BEGIN PRIVATE KEY') && !pem.includes('BEGIN RSA PRIVATE KEY')) {
+    if (!/-----BEGIN [A-Z0-9 ]+-----/.test(pem)) {
         return `-----BEGIN CERTIFICATE-----\n${pem.trim()}\n-----END CERTIFICATE-----`;
     }
     return pem;
 }
 
-export const parseCertificate = (pemOrDer: string): { cert: forge.pki.Certificate; info: CertificateInfo } => {
-  let cert: forge.pki.Certificate;
-  const pem = normalizePem(pemOrDer);
+export const loadCertificate = (pemOrDer: string): DecodedCertificate => {
+  const block = forge.pem.decode(normalizePem(pemOrDer)).find((b: any) => b.type.endsWith('CERTIFICATE'));
+  if (!block) throw new Error('No certificate block found');
+  return decodeCertificate(block.body);
+};
+
+const OID_AUTHORITY_INFO_ACCESS = '1.3.6.1.5.5.7.1.1';
+const OID_SUBJECT_ALT_NAME = '2.5.29.17';
+const OID_CRL_DISTRIBUTION_POINTS = '2.5.29.31';
+const OID_AD_OCSP = '1.3.6.1.5.5.7.48.1';
+const OID_AD_CA_ISSUERS = '1.3.6.1.5.5.7.48.2';
+
+const isContextTag = (node: any, tag: number) => node?.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && node.type === tag;
+
+// uniformResourceIdentifier [6] entries of a GeneralNames list; other name forms are skipped
+const generalNameUris = (names: any[]): string[] =>
+  names.filter(name => isContextTag(name, 6)).map(name => forge.util.decodeUtf8(name.value));
+
+// AuthorityInfoAccessSyntax (RFC 5280 4.2.2.1): caIssuers and OCSP locations, in certificate order
+export const readAuthorityInfoAccess = (cert: DecodedCertificate): { caIssuers: string[]; ocsp: string[] } => {
+  const result = { caIssuers: [] as string[], ocsp: [] as string[] };
+  const ext = cert.extensions.find(e => e.id === OID_AUTHORITY_INFO_ACCESS);
+  if (!ext) return result;
+
+  for (const description of forge.asn1.fromDer(ext.value).value) {
+    const [method, location] = description.value;
+    const uris = generalNameUris([location]);
+    const oid = forge.asn1.derToOid(method.value);
+    if (oid === OID_AD_CA_ISSUERS) result.caIssuers.push(...uris);
+    else if (oid === OID_AD_OCSP) result.ocsp.push(...uris);
+  }
+  return result;
+};
+
+// CRLDistributionPoints (RFC 5280 4.2.1.13): the URIs of every point's fullName
+export const readCrlDistributionPoints = (cert: DecodedCertificate): string[] => {
+  const ext = cert.extensions.find(e => e.id === OID_CRL_DISTRIBUTION_POINTS);
+  if (!ext) return [];
+
+  return forge.asn1.fromDer(ext.value).value.flatMap((point: any) => {
+    // distributionPoint [0] is a CHOICE, so explicitly tagged; fullName [0] is its GeneralNames
+    const name = point.value.find((field: any) => isContextTag(field, 0));
+    const fullName = name?.value.find((choice: any) => isContextTag(choice, 0));
+    return fullName ? generalNameUris(fullName.value) : [];
+  });
+};
+
+// iPAddress octets as text: dotted IPv4, or IPv6 in RFC 5952 form (lowercase, longest zero run as ::)
+export const formatIpAddress = (octets: number[]): string => {
+  if (octets.length === 4) return octets.join('.');
+  if (octets.length !== 16) return octets.map(b => b.toString(16).padStart(2, '0')).join('');
+  const groups = Array.from({ length: 8 }, (_, i) => (octets[2 * i] << 8) | octets[2 * i + 1]);
+  let best = { start: -1, length: 0 };
+  for (let i = 0; i < 8; i++) {
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > best.length && j - i > 1) best = { start: i, length: j - i };
+    i = j;
+  }
+  const hex = groups.map(g => g.toString(16));
+  if (best.start < 0) return hex.join(':');
+  return `${hex.slice(0, best.start).join(':')}::${hex.slice(best.start + best.length).join(':')}`;
+};
+
+// SubjectAltName (RFC 5280 4.2.1.6): dNSName [2], iPAddress [7], rfc822Name [1] and URI [6]; other forms are skipped
+export const readSubjectAltNames = (cert: DecodedCertificate): SubjectAltNames => {
+  const result: SubjectAltNames = { dns: [], ip: [], email: [], uri: [] };
+  const ext = cert.extensions.find(e => e.id === OID_SUBJECT_ALT_NAME);
+  if (!ext) return result;
+
+  for (const name of forge.asn1.fromDer(ext.value).value) {
+    if (isContextTag(name, 2)) result.dns.push(name.value);
+    else if (isContextTag(name, 7)) result.ip.push(formatIpAddress(Array.from(name.value as string, c => c.charCodeAt(0))));
+    else if (isContextTag(name, 1)) result.email.push(name.value);
+    else if (isContextTag(name, 6)) result.uri.push(forge.util.decodeUtf8(name.value));
+  }
+  return result;
+};
+
+export const parseCertificate = (pemOrDer: string): { cert: DecodedCertificate; info: CertificateInfo } => {
+  let cert: DecodedCertificate;
 
   try {
-    cert = forge.pki.certificateFromPem(pem);
+    cert = loadCertificate(pemOrDer);
   } catch (e) {
     throw new Error("Invalid Certificate format. Please upload a PEM encoded certificate.");
   }
 
-  const subject = cert.subject.attributes.find(attr => attr.shortName === 'CN' || attr.name === 'commonName');
-  const issuer = cert.issuer.attributes.find(attr => attr.shortName === 'CN' || attr.name === 'commonName');
-  const org = cert.subject.attributes.find(attr => attr.shortName === 'O' || attr.name === 'organizationName');
+  const subject = cert.subject.find(attr => attr.shortName === 'CN' || attr.name === 'commonName');
+  const issuer = cert.issuer.find(attr => attr.shortName === 'CN' || attr.name === 'commonName');
+  const org = cert.subject.find(attr => attr.shortName === 'O' || attr.name === 'organizationName');
   
-  const ext = cert.getExtension('1.3.6.1.5.5.7.1.1'); 
-  let aiaUrl: string | undefined;
-  if (ext) {
-      try {
-         const val = (ext as any).value; 
-         const match = val.match(/http[s]?:\/\/[a-zA-Z0-9./-]+.crt/);
-         if (match) {
-             aiaUrl = match[0];
-         }
-      } catch(e) {
-          console.warn("Failed to extract AIA URL", e);
-      }
+  let access = { caIssuers: [] as string[], ocsp: [] as string[] };
+  let crlUrls: string[] = [];
+  let subjectAltNames: SubjectAltNames = { dns: [], ip: [], email: [], uri: [] };
+  try {
+      access = readAuthorityInfoAccess(cert);
+  } catch (e) {
+      console.warn("Malformed Authority Information Access extension", e);
+  }
+  try {
+      crlUrls = readCrlDistributionPoints(cert);
+  } catch (e) {
+      console.warn("Malformed CRL Distribution Points extension", e);
+  }
+  try {
+      subjectAltNames = readSubjectAltNames(cert);
+  } catch (e) {
+      console.warn("Malformed Subject Alternative Name extension", e);
   }
 
   return {
@@ -188,87 +920,395 @@ export const parseCertificate = (pemOrDer: string): { cert: forge.pki.Certificat
       commonName: subject?.value as string || 'Unknown',
       organization: org?.value as string || 'Unknown',
       issuer: issuer?.value as string || 'Unknown',
-      validFrom: cert.validity.notBefore,
-      validTo: cert.validity.notAfter,
+      validFrom: cert.notBefore,
+      validTo: cert.notAfter,
       serialNumber: cert.serialNumber,
-      raw: forge.pki.certificateToPem(cert),
-      aiaUrl,
-      fingerprint: forge.md.sha1.create().update(forge.asn1.toDer(forge.pki.certificateToAsn1(cert)).getBytes()).digest().toHex()
+      raw: forge.pem.encode({ type: 'CERTIFICATE', body: cert.der }),
+      caIssuers: access.caIssuers,
+      ocspUrls: access.ocsp,
+      crlUrls,
+      subjectAltNames,
+      fingerprint: forge.md.sha1.create().update(cert.der).digest().toHex(),
+      keyAlgorithm: cert.publicKey.algorithm,
+      keySize: cert.publicKey.size,
+      curve: cert.publicKey.curve
     }
   };
 };
 
 export const checkKeyPair = (certPem: string, keyPem: string): boolean => {
   try {
-    const cert = forge.pki.certificateFromPem(normalizePem(certPem));
-    const privateKey = forge.pki.privateKeyFromPem(keyPem);
-    const certRsa = cert.publicKey as forge.pki.rsa.PublicKey;
-    const keyRsa = privateKey as forge.pki.rsa.PrivateKey;
-    return certRsa.n.toString(16) === keyRsa.n.toString(16);
+    const cert = loadCertificate(certPem);
+    return samePublicKey(cert.publicKey, readPrivateKey(keyPem));
   } catch (e) {
     console.error("Key Check Error", e);
     return false;
   }
 };
 
+// Strict: true only if parent's key verifies child's signature. Full RFC 5280 checks (names,
+// constraints, validity) are in pathValidationService.
 export const verifyParent = (childPem: string, parentPem: string): boolean => {
   try {
-    const child = forge.pki.certificateFromPem(normalizePem(childPem));
-    const parent = forge.pki.certificateFromPem(normalizePem(parentPem));
-    
-    try {
-        if (child.verify(parent)) {
-            return true;
-        }
-    } catch (verifyError) {
-        // Fall through to loose check
-    }
+    return verifySignature(loadCertificate(childPem), loadCertificate(parentPem).publicKey);
+  } catch (e) {
+    return false;
+  }
+};
+
+export const isSelfSigned = (pem: string): boolean => {
+  return verifyParent(pem, pem);
+};
+
+// --- Digests & Detached Signatures ---
+
+export const sha256Hex = (data: string | Uint8Array): string =>
+  forge.md.sha256.create()
+    .update(typeof data === 'string' ? forge.util.encodeUtf8(data) : forge.util.binary.raw.encode(data))
+    .digest().toHex();
 
-    const getDnString = (attrs: any[]) => {
-        return attrs.map(a => `${a.shortName}=${a.value}`).sort().join(', ');
-    };
+// SHA-256 over the DER encoding, the form `openssl x509 -fingerprint -sha256` prints (without colons)
+export const certificateSha256 = (pemOrDer: string): string =>
+  forge.md.sha256.create().update(loadCertificate(pemOrDer).der).digest().toHex();
 
-    const childIssuerDn = getDnString(child.issuer.attributes);
-    const parentSubjectDn = getDnString(parent.subject.attributes);
+export interface SignerDescription {
+  algorithm: string; // e.g. 'RSA-SHA256', 'ECDSA-SHA384', 'Ed25519'
+  publicKey: string; // SubjectPublicKeyInfo PEM
+  fingerprint: string; // SHA-256 of the SubjectPublicKeyInfo DER
+}
+
+const signingAlgorithm = (key: PublicKeyDetails): string =>
+  key.algorithm === 'Ed25519' ? 'Ed25519' : `${key.algorithm}-${key.curve === 'P-384' ? 'SHA384' : 'SHA256'}`;
+
+const spkiDer = (key: PublicKeyDetails): string => {
+  if (key.algorithm === 'RSA') return forge.asn1.toDer(forge.pki.publicKeyToAsn1(key.rsa!)).getBytes();
+  const { asn1 } = forge;
+  const curveOid = Object.keys(EC_CURVES).find(oid => EC_CURVES[oid].name === key.curve);
+  const algorithm = key.algorithm === 'Ed25519'
+    ? [asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(OID_ED25519).getBytes())]
+    : [
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(OID_EC_PUBLIC_KEY).getBytes()),
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(curveOid!).getBytes()),
+      ];
+  return asn1.toDer(asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, algorithm),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.BITSTRING, false, '\x00' + forge.util.binary.raw.encode(key.point!)),
+  ])).getBytes();
+};
+
+const describePublicKey = (key: PublicKeyDetails): SignerDescription => {
+  const der = spkiDer(key);
+  return {
+    algorithm: signingAlgorithm(key),
+    publicKey: forge.pem.encode({ type: 'PUBLIC KEY', body: der }).replace(/\r\n/g, '\n'),
+    fingerprint: forge.md.sha256.create().update(der).digest().toHex(),
+  };
+};
 
-    return childIssuerDn === parentSubjectDn;
+// Public half of a (decrypted) signing key, as recorded next to each signature
+export const describeSigningKey = (keyPem: string): SignerDescription => describePublicKey(readPrivateKey(keyPem));
+
+// Secret scalar (EC) or seed (Ed25519) of an unencrypted key; RSA keys go through forge
+const readSecret = (keyPem: string): Uint8Array => {
+  const block = findKeyBlock(keyPem);
+  if (block.type === 'EC PRIVATE KEY') return binaryToBytes(forge.asn1.fromDer(block.body).value[1].value);
+  const info = forge.asn1.fromDer(block.body);
+  const inner = forge.asn1.fromDer(info.value[2].value);
+  return binaryToBytes(forge.asn1.derToOid(info.value[1].value[0].value) === OID_ED25519 ? inner.value : inner.value[1].value);
+};
+
+const digestFor = (algorithm: string, data: Uint8Array) => {
+  const md = forge.md[algorithm.endsWith('SHA384') ? 'sha384' : 'sha256'].create();
+  md.update(forge.util.binary.raw.encode(data));
+  return md;
+};
+
+// Detached signature over raw bytes: PKCS#1 v1.5 for RSA, DER-encoded ECDSA, or pure Ed25519
+export const signDetached = (keyPem: string, data: Uint8Array): { signer: SignerDescription; signature: string } => {
+  const key = readPrivateKey(keyPem);
+  const signer = describePublicKey(key);
+  let signature: Uint8Array;
+
+  if (key.algorithm === 'RSA') {
+    const block = findKeyBlock(keyPem);
+    const rsa = forge.pki.privateKeyFromPem(forge.pem.encode({ type: block.type, body: block.body }));
+    signature = binaryToBytes(rsa.sign(digestFor(signer.algorithm, data)));
+  } else if (key.algorithm === 'Ed25519') {
+    signature = ed25519.sign(data, readSecret(keyPem));
+  } else {
+    const digest = binaryToBytes(digestFor(signer.algorithm, data).digest().getBytes());
+    signature = getCurveByName(key.curve!).sign(digest, readSecret(keyPem), { prehash: false }).toDERRawBytes();
+  }
+  return { signer, signature: forge.util.encode64(forge.util.binary.raw.encode(signature)) };
+};
+
+// Checks a detached signature against the SubjectPublicKeyInfo it names. Never throws.
+export const verifyDetached = (publicKeyPem: string, algorithm: string, data: Uint8Array, signatureBase64: string): boolean => {
+  try {
+    // EC and Ed25519 points can happen to parse as DER, so the BIT STRING must stay undecoded
+    const key = readPublicKey(forge.asn1.fromDer(forge.pem.decode(publicKeyPem)[0].body, { decodeBitStrings: false }));
+    if (signingAlgorithm(key) !== algorithm) return false;
+    const signature = forge.util.decode64(signatureBase64);
+
+    if (key.algorithm === 'RSA') return key.rsa!.verify(digestFor(algorithm, data).digest().getBytes(), signature);
+    if (key.algorithm === 'Ed25519') return ed25519.verify(binaryToBytes(signature), data, key.point!);
+    const digest = binaryToBytes(digestFor(algorithm, data).digest().getBytes());
+    return getCurveByName(key.curve!).verify(binaryToBytes(signature), digest, key.point!, { prehash: false, lowS: false, format: 'der' });
   } catch (e) {
     return false;
   }
 };
 
-export const isSelfSigned = (pem: string): boolean => {
-  return verifyParent(pem, pem);
+// SHA-256 of the SubjectPublicKeyInfo of a public key PEM
+export const publicKeyFingerprint = (publicKeyPem: string): string =>
+  forge.md.sha256.create().update(forge.pem.decode(publicKeyPem)[0].body).digest().toHex();
+
+// --- Credential Bundles (PKCS#12, combined PEM) ---
+
+export interface BundleContents {
+  certPem: string;
+  keyPem: string | null;
+  caPems: string[];
+}
+
+// Leaf: the cert sharing the key's localKeyId, else the one matching the key, else the first non-CA
+const assembleBundle = (certs: { pem: string; localKeyId?: string }[], keyPem: string | null, keyId?: string): BundleContents => {
+  const leaf =
+    (keyId && certs.find(c => c.localKeyId === keyId)) ||
+    (keyPem && certs.find(c => checkKeyPair(c.pem, keyPem))) ||
+    certs.find(c => !isSelfSigned(c.pem)) ||
+    certs[0];
+
+  return {
+    certPem: leaf.pem,
+    keyPem,
+    caPems: certs.filter(c => c !== leaf).map(c => c.pem),
+  };
 };
 
-// Breaks a bundle string into array of PEM strings
+const pkcs12ErrorMessage = (e: any): string => {
+  const message: string = e?.message || '';
+  if (message.includes('MAC could not be verified')) {
+    return 'Incorrect password: the PKCS#12 integrity check (MAC) failed.';
+  }
+  if (message.includes('wrong password') || message.includes('Failed to decrypt')) {
+    return 'Incorrect password: the PKCS#12 contents could not be decrypted.';
+  }
+  if (message.includes('unsupported MAC algorithm')) {
+    return 'The PKCS#12 file uses an unsupported MAC algorithm.';
+  }
+  return 'The file is not a valid PKCS#12 (.pfx/.p12) archive.';
+};
+
+// Opens a PFX and splits it into leaf certificate, private key and bundled CAs (all PEM)
+export const parsePkcs12 = (data: ArrayBuffer | Uint8Array, password: string): BundleContents => {
+  let p12: any;
+  try {
+    const asn1 = forge.asn1.fromDer(forge.util.createBuffer(data), false);
+    p12 = forge.pkcs12.pkcs12FromAsn1(asn1, false, password);
+  } catch (e) {
+    throw new Error(pkcs12ErrorMessage(e));
+  }
+
+  // forge only decodes RSA bags itself; anything else is kept as raw ASN.1
+  const certBags = p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] || [];
+  const keyBags = [
+    ...(p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] || []),
+    ...(p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] || []),
+  ];
+
+  const certs = certBags.map((bag: any) => ({
+    pem: bag.cert
+      ? forge.pki.certificateToPem(bag.cert)
+      : forge.pem.encode({ type: 'CERTIFICATE', body: forge.asn1.toDer(bag.asn1).getBytes() }),
+    localKeyId: bag.attributes?.localKeyId?.[0] as string | undefined,
+  }));
+  if (certs.length === 0) {
+    throw new Error('The PKCS#12 file does not contain any certificate.');
+  }
+
+  const keyBag = keyBags[0];
+  const keyPem = keyBag
+    ? forge.pki.privateKeyInfoToPem(keyBag.key ? forge.pki.wrapRsaPrivateKey(forge.pki.privateKeyToAsn1(keyBag.key)) : keyBag.asn1)
+    : null;
+
+  return assembleBundle(certs, keyPem, keyBag?.attributes?.localKeyId?.[0]);
+};
+
+// Splits text holding certificates and a key together, such as `openssl pkcs12 -nodes` output
+export const parsePemBundle = (text: string): BundleContents => {
+  const certs = splitCaBundle(text).map(pem => ({ pem }));
+  if (certs.length === 0) {
+    throw new Error('The bundle does not contain any certificate.');
+  }
+  const keyMatch = text.match(/-----BEGIN ([A-Z ]*)PRIVATE KEY-----[\s\S]+?-----END \1PRIVATE KEY-----/);
+  return assembleBundle(certs, keyMatch ? keyMatch[0] : null);
+};
+
+// --- Content Sniffing ---
+
+const OID_PKCS7_SIGNED_DATA = '1.2.840.113549.1.7.2';
+
+const sniffDer = (der: string): InputKind => {
+  let root: any;
+  try {
+    root = forge.asn1.fromDer(der, { strict: false, parseAllBytes: false, decodeBitStrings: false });
+  } catch (e) {
+    return 'unknown';
+  }
+  if (root.type !== forge.asn1.Type.SEQUENCE || !Array.isArray(root.value) || root.value.length < 2) return 'unknown';
+
+  const [first, second] = root.value;
+  // PFX ::= SEQUENCE { version INTEGER (3), authSafe ContentInfo, macData OPTIONAL }
+  if (first.type === forge.asn1.Type.INTEGER && first.value === '\x03' && second.type === forge.asn1.Type.SEQUENCE) {
+    return 'pkcs12';
+  }
+  if (first.type === forge.asn1.Type.OID && forge.asn1.derToOid(first.value) === OID_PKCS7_SIGNED_DATA) {
+    return 'pkcs7';
+  }
+  try {
+    decodeCertificate(der);
+    return 'der-cert';
+  } catch (e) {
+    // TBSCertList has thisUpdate directly under it; TBSCertificate nests its times in Validity
+    const tbs = first.type === forge.asn1.Type.SEQUENCE && Array.isArray(first.value) ? first.value : [];
+    const hasTime = tbs.some((f: any) => f.type === forge.asn1.Type.UTCTIME || f.type === forge.asn1.Type.GENERALIZEDTIME);
+    return hasTime ? 'crl' : 'unknown';
+  }
+};
+
+const sniffText = (text: string): InputKind => {
+  const certCount = (text.match(/-----BEGIN (X509 |TRUSTED )?CERTIFICATE-----/g) || []).length;
+  const hasKey = /-----BEGIN [A-Z ]*PRIVATE KEY-----/.test(text);
+
+  if (/-----BEGIN PKCS7-----/.test(text)) return 'pkcs7';
+  if (certCount === 0 && /-----BEGIN X509 CRL-----/.test(text)) return 'crl';
+  if (text.includes('Bag Attributes') || (certCount > 0 && hasKey)) return 'pem-bundle';
+  if (certCount > 0) return 'pem-cert';
+  if (hasKey) return 'pem-key';
+  return 'unknown';
+};
+
+// Works out what a dropped file or pasted text contains, so any drop zone can route it
+export const sniffContent = (bytes: Uint8Array, name: string): SniffedInput => {
+  const binary = forge.util.binary.raw.encode(bytes);
+
+  // ustar magic sits at offset 257 of the first header block; gzip input can only be a .tar.gz package
+  if ((bytes.length >= 512 && binary.substring(257, 262) === 'ustar') || isGzip(bytes)) {
+    return { name, kind: 'tar', text: '', bytes };
+  }
+
+  const isText = !bytes.subarray(0, 1024).includes(0) && bytes[0] !== 0x30;
+  if (isText) {
+    const text = new TextDecoder().decode(bytes);
+    if (text.includes('-----BEGIN')) {
+      return { name, kind: sniffText(text), text, bytes };
+    }
+    // Headerless base64 (e.g. a pasted certificate body)
+    const compact = text.replace(/\s+/g, '');
+    if (compact && /^[A-Za-z0-9+/]+=*$/.test(compact)) {
+      return sniffDerInput(forge.util.decode64(compact), name, bytes);
+    }
+    return { name, kind: 'unknown', text, bytes };
+  }
+
+  return sniffDerInput(binary, name, bytes);
+};
+
+const sniffDerInput = (der: string, name: string, bytes: Uint8Array): SniffedInput => {
+  const kind = sniffDer(der);
+  const text =
+    kind === 'der-cert' ? forge.pem.encode({ type: 'CERTIFICATE', body: der }) :
+    kind === 'pkcs7' ? forge.pem.encode({ type: 'PKCS7', body: der }) :
+    '';
+  // Keep the decoded DER for binary containers that were pasted as base64
+  return { name, kind, text, bytes: kind === 'pkcs12' || kind === 'crl' ? forge.util.binary.raw.decode(der) : bytes };
+};
+
+// --- PKCS#7 ---
+
+// Certificates of a PKCS#7 SignedData (a certs-only .p7b/.p7c), as DER binary strings
+const pkcs7Certificates = (der: string): string[] => {
+  const root = forge.asn1.fromDer(der, { strict: false, decodeBitStrings: false });
+  if (forge.asn1.derToOid(root.value[0].value) !== OID_PKCS7_SIGNED_DATA) {
+    throw new Error('PKCS#7 content is not SignedData');
+  }
+  // ContentInfo.content is [0] EXPLICIT SignedData; certificates are SignedData's [0] IMPLICIT SET
+  const signedData = root.value[1].value[0];
+  const certificates = signedData.value.find(
+    (v: any) => v.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && v.type === 0
+  );
+  return certificates ? certificates.value.map((c: any) => forge.asn1.toDer(c).getBytes()) : [];
+};
+
+// Breaks a bundle string into array of PEM strings, expanding any PKCS#7 blocks in place
 export const splitCaBundle = (bundle: string): string[] => {
-    const matches = bundle.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g);
-    return matches || [];
+    const matches = bundle.match(/-----BEGIN (CERTIFICATE|PKCS7)-----[\s\S]+?-----END \1-----/g) || [];
+    return matches.flatMap(block => {
+        if (!block.startsWith('-----BEGIN PKCS7-----')) return [block];
+        try {
+            return pkcs7Certificates(forge.pem.decode(block)[0].body)
+                .map(der => forge.pem.encode({ type: 'CERTIFICATE', body: der }));
+        } catch (e) {
+            console.warn("Skipping unreadable PKCS#7 block", e);
+            return [];
+        }
+    });
 };
 
-export const fetchCertificate = async (url: string): Promise<string> => {
-    const proxyUrl = 'https://api.allorigins.win/raw?url='; 
-    try {
-        const response = await fetch(url);
-        if (!response.ok) throw new Error('Direct fetch failed');
-        const blob = await response.blob();
-        const arrayBuffer = await blob.arrayBuffer();
-        const bytes = forge.util.createBuffer(arrayBuffer);
-        const asn1 = forge.asn1.fromDer(bytes);
-        const cert = forge.pki.certificateFromAsn1(asn1);
-        return forge.pki.certificateToPem(cert);
-    } catch (e) {
+// Greedily orders candidate certificates so each one signs the one before, starting from tailPem.
+// Candidates that sign nothing are appended in their original order and flagged as broken links.
+export const orderChain = (tailPem: string, pems: string[]): { pem: string; signsChild: boolean }[] => {
+    const candidates = [...pems];
+    const ordered: { pem: string; signsChild: boolean }[] = [];
+    let currentTailPem = tailPem;
+
+    let found = true;
+    while (candidates.length > 0 && found) {
+        found = false;
+        // Find a cert that signs the current tail
+        const idx = candidates.findIndex(c => verifyParent(currentTailPem, c));
+        if (idx !== -1) {
+            const [match] = candidates.splice(idx, 1); // remove from pool
+            ordered.push({ pem: match, signsChild: true });
+            currentTailPem = match;
+            found = true;
+        }
+    }
+
+    // Remaining candidates (broken links or unordered leftovers)
+    for (const c of candidates) {
+        ordered.push({ pem: c, signsChild: verifyParent(currentTailPem, c) });
+        currentTailPem = c;
+    }
+
+    return ordered;
+};
+
+// Tries the caIssuers URIs in order until one serves a certificate that signed childPem.
+// A URI serving only other certificates is kept as a fallback; throws only if every URI fails.
+export const fetchIssuerCertificates = async (urls: string[], childPem: string): Promise<string[]> => {
+    let fallback: string[] = [];
+    let lastError: unknown = null;
+    for (const url of urls) {
         try {
-             const response = await fetch(`${proxyUrl}${encodeURIComponent(url)}`);
-             const blob = await response.blob();
-             const arrayBuffer = await blob.arrayBuffer();
-             const bytes = forge.util.createBuffer(arrayBuffer);
-             const asn1 = forge.asn1.fromDer(bytes);
-             const cert = forge.pki.certificateFromAsn1(asn1);
-             return forge.pki.certificateToPem(cert);
-        } catch (proxyError) {
-            throw new Error(`Could not fetch certificate from ${url}`);
+            const pems = await fetchCertificates(url);
+            if (pems.some(pem => verifyParent(childPem, pem))) return pems;
+            if (fallback.length === 0) fallback = pems;
+        } catch (e) {
+            console.warn(`caIssuers ${url} failed:`, e);
+            lastError = e;
         }
     }
-};
\ No newline at end of file
+    if (fallback.length === 0 && lastError) throw lastError;
+    return fallback;
+};
+
+// Fetches an AIA caIssuers resource: a DER or PEM certificate, or a PKCS#7 (.p7c) bundle
+export const fetchCertificates = (url: string): Promise<string[]> =>
+    fetchWithRelay(url, bytes => {
+        const { kind, text } = sniffContent(bytes, url);
+        const pems = kind === 'der-cert' || kind === 'pem-cert' || kind === 'pkcs7' ? splitCaBundle(text) : [];
+        if (pems.length === 0) throw new Error('No certificate in response');
+        return pems;
+    });
@@ -0,0 +1,79 @@
+import { DistributionResult, DistributionTarget, TransferProtocol } from '../types';
+
+// The companion service (companion/server.ts) performs the actual transfers
+export const COMPANION_URL = process.env.COMPANION_URL || 'http://127.0.0.1:8787';
+
+const TARGETS_KEY = 'distributionTargets';
+
+export const TRANSFER_PROTOCOLS: { id: TransferProtocol; label: string; hasLogin: boolean }[] = [
+  { id: 'sftp', label: 'SFTP', hasLogin: true },
+  { id: 'ftp', label: 'FTP', hasLogin: true },
+  { id: 'tftp', label: 'TFTP', hasLogin: false },
+  { id: 'http', label: 'HTTP PUT', hasLogin: true },
+];
+
+// --- Saved Targets ---
+
+export const loadTargets = (): DistributionTarget[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TARGETS_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveTargets = (targets: DistributionTarget[]) => {
+  localStorage.setItem(TARGETS_KEY, JSON.stringify(targets));
+};
+
+export const createTarget = (): DistributionTarget => ({
+  id: crypto.randomUUID(),
+  name: 'New target',
+  protocol: 'sftp',
+  host: '',
+  path: '/',
+  username: '',
+});
+
+// --- Upload ---
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Uploads through the companion. Never throws: failures come back as a result with error details.
+export const uploadPackage = async (
+  target: DistributionTarget,
+  password: string,
+  fileName: string,
+  bytes: Uint8Array
+): Promise<DistributionResult> => {
+  const failed = (errorCode: DistributionResult['errorCode'], error: string): DistributionResult =>
+    ({ ok: false, target, url: '', bytes: bytes.length, durationMs: 0, errorCode, error });
+
+  let ticket: string;
+  try {
+    const response = await fetch(`${COMPANION_URL}/tickets`, { method: 'POST' });
+    if (!response.ok) return failed('companion', `Companion refused the request (HTTP ${response.status})`);
+    ticket = (await response.json()).ticket;
+  } catch (e) {
+    return failed('companion', `Companion service not reachable at ${COMPANION_URL} (start it with \`npm run companion\`)`);
+  }
+
+  try {
+    const response = await fetch(`${COMPANION_URL}/upload`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Upload-Ticket': ticket },
+      body: JSON.stringify({ target, password, fileName, data: toBase64(bytes) }),
+    });
+    const result = await response.json();
+    return { url: '', bytes: bytes.length, durationMs: 0, ...result, target };
+  } catch (e: any) {
+    return failed('companion', `Upload request failed: ${e.message}`);
+  }
+};
@@ -0,0 +1,120 @@
+import { FetchLogEntry, FetchPath, FetchRelaySettings } from '../types';
+
+// All AIA, OCSP and CRL downloads go through here: direct first, then the configured relay, never
+// to a host outside the allowlist. Each fetch is logged with the path it took.
+
+const SETTINGS_KEY = 'fetchRelay';
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_LOG_ENTRIES = 200;
+
+export const DEFAULT_FETCH_SETTINGS: FetchRelaySettings = { relayUrl: '', allowedHosts: [] };
+
+// --- Settings ---
+
+export const loadFetchSettings = (): FetchRelaySettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return {
+      relayUrl: typeof saved.relayUrl === 'string' ? saved.relayUrl : DEFAULT_FETCH_SETTINGS.relayUrl,
+      allowedHosts: Array.isArray(saved.allowedHosts) ? saved.allowedHosts.filter((h: unknown) => typeof h === 'string') : [],
+    };
+  } catch (e) {
+    return DEFAULT_FETCH_SETTINGS;
+  }
+};
+
+export const saveFetchSettings = (settings: FetchRelaySettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Relay URLs must be absolute http(s) URLs; returns why one is unusable, or null
+export const relayUrlProblem = (relayUrl: string): string | null => {
+  if (!relayUrl) return null;
+  try {
+    const { protocol } = new URL(relayUrl.replace('{url}', ''));
+    return protocol === 'http:' || protocol === 'https:' ? null : 'Relay must be an http or https URL';
+  } catch (e) {
+    return 'Relay is not a valid URL';
+  }
+};
+
+// '*.example.com' matches any subdomain of example.com, but not example.com itself
+export const hostAllowed = (url: string, allowedHosts: string[]): boolean => {
+  if (allowedHosts.length === 0) return true;
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch (e) {
+    return false;
+  }
+  return allowedHosts.some(entry => {
+    const pattern = entry.trim().toLowerCase();
+    return pattern.startsWith('*.') ? host.endsWith(pattern.substring(1)) : host === pattern;
+  });
+};
+
+const relayTarget = (relayUrl: string, url: string) =>
+  relayUrl.includes('{url}') ? relayUrl.replace('{url}', encodeURIComponent(url)) : `${relayUrl}${encodeURIComponent(url)}`;
+
+// --- Log ---
+
+let log: FetchLogEntry[] = [];
+const listeners = new Set<(entries: FetchLogEntry[]) => void>();
+
+const record = (url: string, path: FetchPath, detail?: string) => {
+  log = [{ url, path, detail, at: new Date().toISOString() }, ...log].slice(0, MAX_LOG_ENTRIES);
+  listeners.forEach(listener => listener(log));
+};
+
+export const getFetchLog = (): FetchLogEntry[] => log;
+
+// Calls listener on every new entry; returns the unsubscribe function
+export const subscribeFetchLog = (listener: (entries: FetchLogEntry[]) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const clearFetchLog = () => {
+  log = [];
+  listeners.forEach(listener => listener(log));
+};
+
+// --- Fetching ---
+
+// Fetches url directly, then through the relay for servers that send no CORS headers.
+// parse turns the body into a result and throws on content it can't use, which also triggers the relay.
+export const fetchWithRelay = async <T>(url: string, parse: (bytes: Uint8Array) => T): Promise<T> => {
+  const { relayUrl, allowedHosts } = loadFetchSettings();
+  if (!hostAllowed(url, allowedHosts)) {
+    record(url, 'blocked', 'Host not on the allowlist');
+    throw new Error(`Not fetching ${url}: host not on the allowlist`);
+  }
+
+  const attempt = async (target: string) => {
+    const response = await fetch(target, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return parse(new Uint8Array(await response.arrayBuffer()));
+  };
+
+  let directError: string;
+  try {
+    const result = await attempt(url);
+    record(url, 'direct');
+    return result;
+  } catch (e: any) {
+    directError = e.message;
+  }
+
+  if (!relayUrl || relayUrlProblem(relayUrl)) {
+    record(url, 'failed', `direct: ${directError}`);
+    throw new Error(`Could not fetch ${url}: ${directError}`);
+  }
+  try {
+    const result = await attempt(relayTarget(relayUrl, url));
+    record(url, 'relay', `direct: ${directError}`);
+    return result;
+  } catch (e: any) {
+    record(url, 'failed', `direct: ${directError}; relay: ${e.message}`);
+    throw new Error(`Could not fetch ${url}: ${directError}; relay: ${e.message}`);
+  }
+};
@@ -0,0 +1,91 @@
+import { CertificateInfo, HostnameCoverage } from '../types';
+
+// Whether a certificate serves the controller's hostnames and IPs the way browsers decide it
+// (RFC 6125 / CA/B Forum): only SANs count, the subject CN is ignored.
+
+const IPV4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+// Octets of an IPv4 or IPv6 literal (brackets allowed), or null for anything else
+export const parseIpAddress = (text: string): number[] | null => {
+  const value = text.replace(/^\[(.*)\]$/, '$1');
+  const v4 = IPV4.exec(value);
+  if (v4) {
+    const octets = v4.slice(1).map(Number);
+    return octets.every(o => o <= 255) ? octets : null;
+  }
+  if (!value.includes(':')) return null;
+
+  // An embedded IPv4 tail (::ffff:10.0.0.1) becomes two groups
+  let body = value.toLowerCase();
+  const tail = IPV4.exec(body.substring(body.lastIndexOf(':') + 1));
+  if (tail) {
+    const octets = parseIpAddress(tail[0]);
+    if (!octets) return null;
+    body = `${body.substring(0, body.lastIndexOf(':') + 1)}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = body.split('::');
+  if (halves.length > 2) return null;
+  const split = (part: string) => part ? part.split(':') : [];
+  const head = split(halves[0]);
+  const rest = halves.length === 2 ? split(halves[1]) : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  const groups = [...head, ...Array(missing).fill('0'), ...rest];
+  if (!groups.every(g => /^[0-9a-f]{1,4}$/.test(g))) return null;
+  return groups.flatMap(g => [parseInt(g, 16) >> 8, parseInt(g, 16) & 0xff]);
+};
+
+// Lowercase A-label form without a trailing dot; null if it is not a usable DNS name
+export const normalizeHostname = (name: string): string | null => {
+  const trimmed = name.trim().replace(/\.$/, '');
+  if (!trimmed || trimmed.includes('*')) return null;
+  try {
+    const host = new URL(`http://${trimmed}`).hostname;
+    return /^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(host) ? host : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// A dNSName covers a hostname exactly, or as a wildcard standing for the whole leftmost label.
+// Partial-label wildcards (f*.example.com) and wildcards over fewer than two labels (*.com) match nothing.
+export const dnsNameMatches = (pattern: string, hostname: string): boolean => {
+  const name = pattern.trim().toLowerCase().replace(/\.$/, '');
+  if (!name.startsWith('*.')) return normalizeHostname(name) === hostname;
+
+  const base = normalizeHostname(name.substring(2));
+  if (!base || !base.includes('.')) return false;
+  const dot = hostname.indexOf('.');
+  return dot > 0 && hostname.substring(dot + 1) === base;
+};
+
+// Controller names from free text: whitespace, comma or semicolon separated, duplicates dropped
+export const parseHostList = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\s,;]+/).map(h => h.trim().toLowerCase()).filter(Boolean)));
+
+// IPs match only iPAddress SANs and names only dNSName SANs, as in browsers
+export const checkHostCoverage = (info: CertificateInfo, hosts: string[]): HostnameCoverage[] =>
+  hosts.map(host => {
+    const ip = parseIpAddress(host);
+    if (ip) {
+      const matchedBy = info.subjectAltNames.ip.find(san => {
+        const octets = parseIpAddress(san);
+        return !!octets && octets.length === ip.length && octets.every((o, i) => o === ip[i]);
+      });
+      return matchedBy
+        ? { host, covered: true, matchedBy }
+        : { host, covered: false, reason: info.subjectAltNames.ip.length > 0 ? 'No IP address SAN matches' : 'The certificate has no IP address SANs' };
+    }
+
+    const hostname = normalizeHostname(host);
+    if (!hostname) return { host, covered: false, reason: 'Not a valid hostname or IP address' };
+    const matchedBy = info.subjectAltNames.dns.find(san => dnsNameMatches(san, hostname));
+    if (matchedBy) return { host, covered: true, matchedBy };
+    if (info.subjectAltNames.dns.length === 0) {
+      return { host, covered: false, reason: 'The certificate has no DNS SANs; browsers ignore the subject CN' };
+    }
+    // The most common surprise: *.example.com does not cover example.com or a.b.example.com
+    const nearMiss = info.subjectAltNames.dns.find(san => san.startsWith('*.') && `.${hostname}`.endsWith(san.substring(1).toLowerCase()));
+    return { host, covered: false, reason: nearMiss ? `${nearMiss} covers exactly one label` : 'No DNS SAN matches' };
+  });
@@ -0,0 +1,274 @@
+import forge from 'node-forge';
+import { Asn1Node, CertificateDetails, CertificateExtension } from '../types';
+import { DecodedCertificate, formatIpAddress, loadCertificate } from './cryptoService';
+
+// Decodes a certificate for display: names, key, fingerprints, every extension, and the raw
+// DER as a tree. Nothing here is used for validation; unknown or malformed parts are shown, not rejected.
+
+const OID_NAMES: Record<string, string> = {
+  // Attribute types
+  '2.5.4.3': 'CN', '2.5.4.4': 'SN', '2.5.4.5': 'serialNumber', '2.5.4.6': 'C', '2.5.4.7': 'L', '2.5.4.8': 'ST',
+  '2.5.4.9': 'street', '2.5.4.10': 'O', '2.5.4.11': 'OU', '2.5.4.12': 'title', '2.5.4.42': 'GN', '2.5.4.97': 'organizationIdentifier',
+  '1.2.840.113549.1.9.1': 'emailAddress', '0.9.2342.19200300.100.1.25': 'DC', '0.9.2342.19200300.100.1.1': 'UID',
+  '1.3.6.1.4.1.311.60.2.1.3': 'jurisdictionC', '2.5.4.15': 'businessCategory',
+  // Keys and signatures
+  '1.2.840.113549.1.1.1': 'rsaEncryption', '1.2.840.113549.1.1.10': 'RSASSA-PSS',
+  '1.2.840.113549.1.1.4': 'md5WithRSAEncryption', '1.2.840.113549.1.1.5': 'sha1WithRSAEncryption',
+  '1.2.840.113549.1.1.11': 'sha256WithRSAEncryption', '1.2.840.113549.1.1.12': 'sha384WithRSAEncryption',
+  '1.2.840.113549.1.1.13': 'sha512WithRSAEncryption', '1.2.840.10045.2.1': 'ecPublicKey',
+  '1.2.840.10045.4.1': 'ecdsa-with-SHA1', '1.2.840.10045.4.3.2': 'ecdsa-with-SHA256',
+  '1.2.840.10045.4.3.3': 'ecdsa-with-SHA384', '1.2.840.10045.4.3.4': 'ecdsa-with-SHA512',
+  '1.2.840.10045.3.1.7': 'prime256v1', '1.3.132.0.34': 'secp384r1', '1.3.132.0.35': 'secp521r1',
+  '1.3.101.112': 'Ed25519', '1.3.101.113': 'Ed448',
+  // Extensions
+  '2.5.29.14': 'Subject Key Identifier', '2.5.29.15': 'Key Usage', '2.5.29.17': 'Subject Alternative Name',
+  '2.5.29.18': 'Issuer Alternative Name', '2.5.29.19': 'Basic Constraints', '2.5.29.30': 'Name Constraints',
+  '2.5.29.31': 'CRL Distribution Points', '2.5.29.32': 'Certificate Policies', '2.5.29.33': 'Policy Mappings',
+  '2.5.29.35': 'Authority Key Identifier', '2.5.29.36': 'Policy Constraints', '2.5.29.37': 'Extended Key Usage',
+  '2.5.29.46': 'Freshest CRL', '2.5.29.54': 'Inhibit anyPolicy', '2.5.29.9': 'Subject Directory Attributes',
+  '1.3.6.1.5.5.7.1.1': 'Authority Information Access', '1.3.6.1.5.5.7.1.11': 'Subject Information Access',
+  '1.3.6.1.5.5.7.1.24': 'TLS Feature', '1.3.6.1.5.5.7.48.1.5': 'OCSP No Check',
+  '1.3.6.1.4.1.11129.2.4.2': 'CT Precertificate SCTs', '1.3.6.1.4.1.11129.2.4.3': 'CT Precertificate Poison',
+  '1.3.6.1.4.1.311.20.2': 'Microsoft Certificate Template Name', '1.3.6.1.4.1.311.21.7': 'Microsoft Certificate Template',
+  '1.3.6.1.4.1.311.21.1': 'Microsoft CA Version', '1.3.6.1.4.1.311.21.10': 'Microsoft Application Policies',
+  '2.16.840.1.113730.1.1': 'Netscape Cert Type', '2.16.840.1.113730.1.13': 'Netscape Comment',
+  // Extended key usages
+  '1.3.6.1.5.5.7.3.1': 'serverAuth', '1.3.6.1.5.5.7.3.2': 'clientAuth', '1.3.6.1.5.5.7.3.3': 'codeSigning',
+  '1.3.6.1.5.5.7.3.4': 'emailProtection', '1.3.6.1.5.5.7.3.8': 'timeStamping', '1.3.6.1.5.5.7.3.9': 'OCSPSigning',
+  '1.3.6.1.5.5.7.3.17': 'ipsecIKE', '2.5.29.37.0': 'anyExtendedKeyUsage', '1.3.6.1.4.1.311.20.2.2': 'smartcardLogon',
+  '1.3.6.1.4.1.311.10.3.12': 'documentSigning',
+  // Policies, qualifiers and access methods
+  '2.5.29.32.0': 'anyPolicy', '2.23.140.1.1': 'CA/B Forum EV', '2.23.140.1.2.1': 'CA/B Forum DV',
+  '2.23.140.1.2.2': 'CA/B Forum OV', '2.23.140.1.2.3': 'CA/B Forum IV', '1.3.6.1.5.5.7.2.1': 'CPS',
+  '1.3.6.1.5.5.7.2.2': 'User Notice', '1.3.6.1.5.5.7.48.1': 'OCSP', '1.3.6.1.5.5.7.48.2': 'CA Issuers',
+};
+
+const oidName = (oid: string) => OID_NAMES[oid] || oid;
+
+const oidLabel = (oid: string) => OID_NAMES[oid] ? `${OID_NAMES[oid]} (${oid})` : oid;
+
+const colonHex = (bytes: string) => forge.util.bytesToHex(bytes).toUpperCase().replace(/(..)(?!$)/g, '$1:');
+
+const isContextTag = (node: any, tag: number) => node?.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && node.type === tag;
+
+const dnText = (attributes: any[]) =>
+  attributes.map(a => `${a.shortName || OID_NAMES[a.type] || a.type}=${a.value}`).join(', ');
+
+// --- Extensions ---
+
+const KEY_USAGES = [
+  'digitalSignature', 'nonRepudiation', 'keyEncipherment', 'dataEncipherment', 'keyAgreement',
+  'keyCertSign', 'cRLSign', 'encipherOnly', 'decipherOnly',
+];
+
+// One GeneralName (RFC 5280 4.2.1.6) as 'FORM:value'; iPAddress in name constraints carries a mask
+const generalNameText = (name: any): string => {
+  if (name.tagClass !== forge.asn1.Class.CONTEXT_SPECIFIC) return '?';
+  const bytes = (value: string) => Array.from(value, c => c.charCodeAt(0));
+  switch (name.type) {
+    case 0: return `othername:${forge.asn1.derToOid(name.value[0].value)}`;
+    case 1: return `email:${name.value}`;
+    case 2: return `DNS:${name.value}`;
+    case 4: return `DirName:${dnText(forge.pki.RDNAttributesAsArray(name.value[0]))}`;
+    case 6: return `URI:${forge.util.decodeUtf8(name.value)}`;
+    case 7: {
+      const octets = bytes(name.value);
+      if (octets.length === 8 || octets.length === 32) {
+        const half = octets.length / 2;
+        return `IP:${formatIpAddress(octets.slice(0, half))}/${formatIpAddress(octets.slice(half))}`;
+      }
+      return `IP:${formatIpAddress(octets)}`;
+    }
+    case 8: return `RID:${forge.asn1.derToOid(name.value)}`;
+    default: return `[${name.type}]`;
+  }
+};
+
+const EXTENSION_DECODERS: Record<string, (value: any) => string[]> = {
+  '2.5.29.19': (value) => {
+    const ca = value.value.find((v: any) => v.type === forge.asn1.Type.BOOLEAN);
+    const pathLen = value.value.find((v: any) => v.type === forge.asn1.Type.INTEGER);
+    const isCa = !!ca && ca.value !== '\x00';
+    return [`CA: ${isCa ? 'TRUE' : 'FALSE'}`, ...(pathLen ? [`Path length: ${forge.asn1.derToInteger(pathLen.value)}`] : [])];
+  },
+  '2.5.29.15': (value) => {
+    const bits = Array.from(value.value.substring(1) as string, c => c.charCodeAt(0));
+    return KEY_USAGES.filter((_, i) => (bits[i >> 3] ?? 0) & (0x80 >> (i & 7)));
+  },
+  '2.5.29.37': (value) => value.value.map((oid: any) => oidLabel(forge.asn1.derToOid(oid.value))),
+  '2.5.29.14': (value) => [colonHex(value.value)],
+  '2.5.29.35': (value) => value.value.flatMap((field: any) => {
+    if (isContextTag(field, 0)) return [`keyid:${colonHex(field.value)}`];
+    if (isContextTag(field, 1)) return field.value.map((n: any) => `issuer:${generalNameText(n)}`);
+    if (isContextTag(field, 2)) return [`serial:${colonHex(field.value)}`];
+    return [];
+  }),
+  '2.5.29.17': (value) => value.value.map(generalNameText),
+  '2.5.29.18': (value) => value.value.map(generalNameText),
+  '2.5.29.32': (value) => value.value.flatMap((policy: any) => {
+    const [id, qualifiers] = policy.value;
+    return [oidLabel(forge.asn1.derToOid(id.value)), ...(qualifiers?.value || []).map((q: any) => {
+      const qualifierOid = forge.asn1.derToOid(q.value[0].value);
+      if (qualifierOid === '1.3.6.1.5.5.7.2.1') return `  CPS: ${q.value[1].value}`;
+      // UserNotice: optional noticeRef, then explicitText
+      const text = q.value[1].value.find((v: any) => v.tagClass === forge.asn1.Class.UNIVERSAL && v.type !== forge.asn1.Type.SEQUENCE);
+      return `  ${oidName(qualifierOid)}: ${text ? forge.util.decodeUtf8(text.value) : ''}`;
+    })];
+  }),
+  '2.5.29.30': (value) => value.value.flatMap((subtrees: any) => {
+    const label = isContextTag(subtrees, 0) ? 'Permitted' : 'Excluded';
+    return subtrees.value.map((subtree: any) => `${label}: ${generalNameText(subtree.value[0])}`);
+  }),
+  '1.3.6.1.5.5.7.1.1': (value) => value.value.map((description: any) =>
+    `${oidName(forge.asn1.derToOid(description.value[0].value))}: ${generalNameText(description.value[1])}`),
+  '2.5.29.31': (value) => value.value.flatMap((point: any) => {
+    const name = point.value.find((field: any) => isContextTag(field, 0));
+    const fullName = name?.value.find((choice: any) => isContextTag(choice, 0));
+    return fullName ? fullName.value.map(generalNameText) : ['(relative name or CRL issuer only)'];
+  }),
+  '1.3.6.1.4.1.11129.2.4.2': (value) => {
+    // An OCTET STRING holding a TLS SignedCertificateTimestampList: 2-byte list length, then 2-byte-prefixed SCTs
+    const list: string = value.value;
+    let count = 0;
+    for (let i = 2; i + 2 <= list.length; i += 2 + ((list.charCodeAt(i) << 8) | list.charCodeAt(i + 1))) count++;
+    return [`${count} signed certificate timestamp(s)`];
+  },
+  '1.3.6.1.4.1.11129.2.4.3': () => ['Precertificate, not for use'],
+  '1.3.6.1.5.5.7.48.1.5': () => ['Responder certificate is not checked for revocation'],
+};
+
+const decodeExtension = (ext: any): CertificateExtension => {
+  const decoder = EXTENSION_DECODERS[ext.id];
+  let values: string[];
+  try {
+    values = decoder ? decoder(forge.asn1.fromDer(ext.value, { decodeBitStrings: false })) : [colonHex(ext.value)];
+  } catch (e: any) {
+    values = [`Malformed: ${e.message}`, colonHex(ext.value)];
+  }
+  return { oid: ext.id, name: oidName(ext.id), critical: !!ext.critical, values };
+};
+
+// --- ASN.1 Tree ---
+
+const UNIVERSAL_TAGS: Record<number, string> = {
+  1: 'BOOLEAN', 2: 'INTEGER', 3: 'BIT STRING', 4: 'OCTET STRING', 5: 'NULL', 6: 'OBJECT IDENTIFIER',
+  10: 'ENUMERATED', 12: 'UTF8String', 16: 'SEQUENCE', 17: 'SET', 19: 'PrintableString', 20: 'T61String',
+  22: 'IA5String', 23: 'UTCTime', 24: 'GeneralizedTime', 26: 'VisibleString', 30: 'BMPString',
+};
+const MAX_DEPTH = 24;
+const MAX_HEX_BYTES = 48;
+
+const shortHex = (bytes: string) =>
+  forge.util.bytesToHex(bytes.substring(0, MAX_HEX_BYTES)).toUpperCase() + (bytes.length > MAX_HEX_BYTES ? `… (${bytes.length} bytes)` : '');
+
+const isPrintable = (bytes: string) => bytes.length > 0 && /^[\x20-\x7e]*$/.test(bytes);
+
+const primitiveValue = (tagClass: number, type: number, bytes: string): string => {
+  if (tagClass !== 0) return isPrintable(bytes) ? bytes : shortHex(bytes);
+  switch (type) {
+    case 1: return bytes === '\x00' ? 'FALSE' : 'TRUE';
+    case 2:
+    case 10: return bytes.length <= 6 ? String(forge.asn1.derToInteger(bytes)) : shortHex(bytes);
+    case 5: return '';
+    case 6: return oidLabel(forge.asn1.derToOid(bytes));
+    case 12: return forge.util.decodeUtf8(bytes);
+    case 30: return Array.from({ length: bytes.length >> 1 }, (_, i) => String.fromCharCode((bytes.charCodeAt(2 * i) << 8) | bytes.charCodeAt(2 * i + 1))).join('');
+    case 19: case 20: case 22: case 23: case 24: case 26: return bytes;
+    default: return shortHex(bytes);
+  }
+};
+
+// TLV nodes of der[start, end); throws on anything that is not well-formed definite-length DER
+const parseNodes = (der: string, start: number, end: number, depth: number): Asn1Node[] => {
+  if (depth > MAX_DEPTH) throw new Error('Nested too deeply');
+  const nodes: Asn1Node[] = [];
+  let pos = start;
+  while (pos < end) {
+    const offset = pos;
+    const first = der.charCodeAt(pos++);
+    const tagClass = first >> 6;
+    const constructed = (first & 0x20) !== 0;
+    let type = first & 0x1f;
+    if (type === 0x1f) {
+      type = 0;
+      let b: number;
+      do {
+        if (pos >= end) throw new Error('Truncated tag');
+        b = der.charCodeAt(pos++);
+        type = (type << 7) | (b & 0x7f);
+      } while (b & 0x80);
+    }
+
+    if (pos >= end) throw new Error('Truncated length');
+    let length = der.charCodeAt(pos++);
+    if (length & 0x80) {
+      const count = length & 0x7f;
+      if (count === 0 || count > 4) throw new Error('Unsupported length');
+      length = 0;
+      for (let i = 0; i < count; i++) length = length * 256 + der.charCodeAt(pos++);
+    }
+    const headerLength = pos - offset;
+    if (pos + length > end) throw new Error('Length past end of data');
+
+    const tag = tagClass === 0 ? UNIVERSAL_TAGS[type] || `UNIVERSAL ${type}`
+      : tagClass === 2 ? `[${type}]`
+      : `[${tagClass === 1 ? 'APPLICATION' : 'PRIVATE'} ${type}]`;
+    const node: Asn1Node = { tag, offset, headerLength, length };
+    if (constructed) {
+      node.children = parseNodes(der, pos, pos + length, depth + 1);
+    } else {
+      node.value = primitiveValue(tagClass, type, der.substring(pos, pos + length));
+      // Extension values, keys and signatures are often DER themselves
+      if (tagClass === 0 && (type === 3 || type === 4)) {
+        const inner = type === 3 ? pos + 1 : pos;
+        if ((type === 4 || der.charCodeAt(pos) === 0) && inner < pos + length && (der.charCodeAt(inner) & 0x20)) {
+          try {
+            node.children = parseNodes(der, inner, pos + length, depth + 1);
+            node.encapsulated = true;
+            node.value = undefined;
+          } catch (e) {
+            // not DER after all: keep the hex
+          }
+        }
+      }
+    }
+    nodes.push(node);
+    pos += length;
+  }
+  return nodes;
+};
+
+export const parseAsn1 = (der: string): Asn1Node => {
+  const [root] = parseNodes(der, 0, der.length, 0);
+  if (!root) throw new Error('Empty DER');
+  return root;
+};
+
+// --- Details ---
+
+const describePublicKey = (cert: DecodedCertificate): string => {
+  const key = cert.publicKey;
+  if (key.algorithm === 'RSA') return `RSA ${key.size} bits, e=${key.rsa!.e.toString(10)}`;
+  if (key.algorithm === 'ECDSA') return `ECDSA ${key.curve} (${key.size} bits)`;
+  return 'Ed25519 (256 bits)';
+};
+
+export const inspectCertificate = (pem: string): CertificateDetails => {
+  const cert = loadCertificate(pem);
+  const digest = (md: forge.md.MessageDigest, data: string) => md.update(data).digest().getBytes();
+  return {
+    version: cert.version,
+    serialNumber: colonHex(forge.util.hexToBytes(cert.serialNumber)),
+    subject: dnText(cert.subject),
+    issuer: dnText(cert.issuer),
+    notBefore: cert.notBefore,
+    notAfter: cert.notAfter,
+    publicKey: describePublicKey(cert),
+    signatureAlgorithm: oidLabel(cert.signatureOid),
+    sha256: colonHex(digest(forge.md.sha256.create(), cert.der)),
+    sha1: colonHex(digest(forge.md.sha1.create(), cert.der)),
+    spkiPin: forge.util.encode64(digest(forge.md.sha256.create(), cert.publicKeyInfo)),
+    extensions: cert.extensions.map(decodeExtension),
+    asn1: parseAsn1(cert.der),
+  };
+};
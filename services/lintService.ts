@@ -0,0 +1,248 @@
+import { CertificateInfo, FindingSeverity, LintFinding, LintRuleConfig, LintRulePack } from '../types';
+import { DecodedCertificate, parseCertificate, verifySignature } from './cryptoService';
+
+// Deterministic certificate linting: the same certificates, rule pack and date always give the
+// same findings. Leaf rules check the certificate being packaged; chain rules check every certificate.
+
+const RULE_PACK_KEY = 'lintRulePack';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OID_EXT_KEY_USAGE = '2.5.29.37';
+const OID_KP_SERVER_AUTH = '1.3.6.1.5.5.7.3.1';
+const OID_ANY_EXTENDED_KEY_USAGE = '2.5.29.37.0';
+const WEAK_SIGNATURES: Record<string, string> = {
+  '1.2.840.113549.1.1.4': 'MD5 with RSA',
+  '1.2.840.113549.1.1.5': 'SHA-1 with RSA',
+  '1.2.840.10045.4.1': 'ECDSA with SHA-1',
+};
+
+interface LintSubject {
+  cert: DecodedCertificate;
+  info: CertificateInfo;
+  selfSigned: boolean;
+  at: Date;
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  scope: 'leaf' | 'chain';
+  severity: FindingSeverity;
+  params: Record<string, number>;
+  check: (subject: LintSubject, params: Record<string, number>) => string | null; // the problem, or null
+}
+
+// Significant serial bytes: the INTEGER contents without the sign padding byte
+const serialBytes = (hex: string) => hex.replace(/^(00)+(?=..)/, '').length / 2;
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'rsa-key-size',
+    description: 'RSA keys shorter than minBits',
+    scope: 'chain',
+    severity: 'error',
+    params: { minBits: 2048 },
+    check: ({ info }, { minBits }) =>
+      info.keyAlgorithm === 'RSA' && info.keySize < minBits ? `RSA key is ${info.keySize} bits; at least ${minBits} required` : null,
+  },
+  {
+    id: 'weak-signature',
+    description: 'MD5 or SHA-1 signatures (a root\'s self-signature is not checked)',
+    scope: 'chain',
+    severity: 'error',
+    params: {},
+    check: ({ cert, selfSigned }) =>
+      !selfSigned && WEAK_SIGNATURES[cert.signatureOid] ? `Signed with ${WEAK_SIGNATURES[cert.signatureOid]}` : null,
+  },
+  {
+    id: 'validity-too-long',
+    description: 'Validity period over maxDays (CA/Browser Forum limit: 398)',
+    scope: 'leaf',
+    severity: 'warning',
+    params: { maxDays: 398 },
+    check: ({ info }, { maxDays }) => {
+      // notAfter is inclusive, so the period is one second longer than the difference
+      const days = (info.validTo.getTime() - info.validFrom.getTime() + 1000) / DAY_MS;
+      return days > maxDays ? `Valid for ${Math.ceil(days)} days; at most ${maxDays} allowed` : null;
+    },
+  },
+  {
+    id: 'missing-san',
+    description: 'No DNS or IP subject alternative names',
+    scope: 'leaf',
+    severity: 'error',
+    params: {},
+    check: ({ info }) =>
+      info.subjectAltNames.dns.length + info.subjectAltNames.ip.length === 0
+        ? 'No DNS or IP SANs; browsers ignore the common name'
+        : null,
+  },
+  {
+    id: 'cn-not-in-san',
+    description: 'Common name missing from the SANs',
+    scope: 'leaf',
+    severity: 'warning',
+    params: {},
+    check: ({ cert, info }) => {
+      const cn = cert.subject.find(attr => attr.shortName === 'CN')?.value as string | undefined;
+      if (!cn) return null;
+      const sans = [...info.subjectAltNames.dns, ...info.subjectAltNames.ip].map(s => s.toLowerCase());
+      return sans.includes(cn.toLowerCase()) ? null : `Common name ${cn} is not among the SANs`;
+    },
+  },
+  {
+    id: 'expired',
+    description: 'Expired or not yet valid',
+    scope: 'leaf',
+    severity: 'error',
+    params: {},
+    check: ({ info, at }) =>
+      at > info.validTo ? `Expired on ${info.validTo.toISOString().substring(0, 10)}`
+      : at < info.validFrom ? `Not valid before ${info.validFrom.toISOString().substring(0, 10)}`
+      : null,
+  },
+  {
+    id: 'expires-soon',
+    description: 'Expires within days',
+    scope: 'leaf',
+    severity: 'warning',
+    params: { days: 30 },
+    check: ({ info, at }, { days }) => {
+      const left = (info.validTo.getTime() - at.getTime()) / DAY_MS;
+      return left >= 0 && left < days ? `Expires in ${Math.floor(left)} days (${info.validTo.toISOString().substring(0, 10)})` : null;
+    },
+  },
+  {
+    id: 'missing-server-auth',
+    description: 'No serverAuth extended key usage',
+    scope: 'leaf',
+    severity: 'error',
+    params: {},
+    check: ({ cert }) => {
+      const ext = cert.extensions.find(e => e.id === OID_EXT_KEY_USAGE);
+      if (!ext) return 'No Extended Key Usage extension; serverAuth expected';
+      return ext[OID_KP_SERVER_AUTH] || ext.serverAuth || ext[OID_ANY_EXTENDED_KEY_USAGE]
+        ? null
+        : 'Extended Key Usage does not include serverAuth';
+    },
+  },
+  {
+    id: 'negative-serial',
+    description: 'Negative or zero serial number',
+    scope: 'chain',
+    severity: 'error',
+    params: {},
+    check: ({ cert }) =>
+      parseInt(cert.serialNumber.substring(0, 2), 16) >= 0x80 ? 'Serial number is negative'
+      : /^0*$/.test(cert.serialNumber) ? 'Serial number is zero'
+      : null,
+  },
+  {
+    id: 'short-serial',
+    description: 'Serial number shorter than minBytes (64 bits of entropy need at least 8)',
+    scope: 'leaf',
+    severity: 'warning',
+    params: { minBytes: 8 },
+    check: ({ cert }, { minBytes }) => {
+      const bytes = serialBytes(cert.serialNumber);
+      return bytes < minBytes ? `Serial number is ${bytes} bytes; at least ${minBytes} expected` : null;
+    },
+  },
+];
+
+// --- Rule Pack ---
+
+export const DEFAULT_RULE_PACK: LintRulePack = { name: 'Default', rules: {} };
+
+export const effectiveRule = (rule: LintRule, pack: LintRulePack): LintRuleConfig => {
+  const override = pack.rules[rule.id] || {};
+  return {
+    enabled: override.enabled ?? true,
+    severity: override.severity ?? rule.severity,
+    params: { ...rule.params, ...override.params },
+  };
+};
+
+// Checks an imported pack's shape; unknown rule ids are an error so typos don't pass silently
+export const parseRulePack = (json: string): LintRulePack => {
+  const raw = JSON.parse(json);
+  if (!raw || typeof raw !== 'object' || typeof raw.rules !== 'object' || raw.rules === null) {
+    throw new Error('A rule pack needs a "rules" object');
+  }
+  const rules: LintRulePack['rules'] = {};
+  for (const [id, value] of Object.entries<any>(raw.rules)) {
+    const rule = LINT_RULES.find(r => r.id === id);
+    if (!rule) throw new Error(`Unknown rule ${id}`);
+    const config: Partial<LintRuleConfig> = {};
+    if (value.enabled !== undefined) config.enabled = !!value.enabled;
+    if (value.severity !== undefined) {
+      if (!['error', 'warning', 'info'].includes(value.severity)) throw new Error(`${id}: severity must be error, warning or info`);
+      config.severity = value.severity;
+    }
+    if (value.params !== undefined) {
+      config.params = {};
+      for (const [name, n] of Object.entries<any>(value.params)) {
+        if (!(name in rule.params) || typeof n !== 'number' || !Number.isFinite(n)) throw new Error(`${id}: invalid parameter ${name}`);
+        config.params[name] = n;
+      }
+    }
+    rules[id] = config;
+  }
+  return { name: typeof raw.name === 'string' && raw.name ? raw.name : 'Imported', rules };
+};
+
+// Every rule written out in full, so the file documents the pack it came from
+export const serializeRulePack = (pack: LintRulePack): string =>
+  JSON.stringify({
+    name: pack.name,
+    rules: Object.fromEntries(LINT_RULES.map(rule => [rule.id, effectiveRule(rule, pack)])),
+  }, null, 2) + '\n';
+
+export const loadRulePack = (): LintRulePack => {
+  try {
+    const saved = localStorage.getItem(RULE_PACK_KEY);
+    return saved ? parseRulePack(saved) : DEFAULT_RULE_PACK;
+  } catch (e) {
+    return DEFAULT_RULE_PACK;
+  }
+};
+
+export const saveRulePack = (pack: LintRulePack) => {
+  localStorage.setItem(RULE_PACK_KEY, JSON.stringify(pack));
+};
+
+// --- Linting ---
+
+// pems is the leaf followed by its chain; CAs that fail to parse are skipped
+export const lintChain = (pems: string[], pack: LintRulePack, at: Date = new Date()): LintFinding[] => {
+  const findings: LintFinding[] = [];
+  pems.forEach((pem, index) => {
+    let subject: LintSubject;
+    try {
+      const { cert, info } = parseCertificate(pem);
+      let selfSigned = false;
+      try {
+        selfSigned = verifySignature(cert, cert.publicKey);
+      } catch (e) {
+        // unsupported algorithm: treat as not self-signed
+      }
+      subject = { cert, info, selfSigned, at };
+    } catch (e) {
+      return;
+    }
+    for (const rule of LINT_RULES) {
+      if (rule.scope === 'leaf' && index > 0) continue;
+      const config = effectiveRule(rule, pack);
+      if (!config.enabled) continue;
+      const problem = rule.check(subject, config.params);
+      if (problem) {
+        findings.push({
+          code: rule.id,
+          severity: config.severity,
+          message: index === 0 ? problem : `CA #${index} ${subject.info.commonName}: ${problem}`,
+          certificate: index,
+        });
+      }
+    }
+  });
+  return findings;
+};
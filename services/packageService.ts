@@ -0,0 +1,441 @@
+import { ChainItem, InputKind, ManifestCheck, ManifestSignature, OutputProfile, PackageManifest, PackagePart, TrustedSigner, ValidationFinding, WingScriptSettings, WingService } from '../types';
+import { convertPrivateKey, isEncryptedKey, sniffContent, ExtractedFile, parseCertificate, certificateSha256, sha256Hex, signDetached, verifyDetached, publicKeyFingerprint, splitCaBundle, compareNames } from './cryptoService';
+
+// Built-in output layouts; the first one is the default
+export const OUTPUT_PROFILES: OutputProfile[] = [
+  {
+    id: 'wing',
+    label: 'WiNG trustpoint',
+    files: [
+      { name: '{name}.crt', parts: ['cert'] },
+      { name: '{name}.prv', parts: ['key'] },
+      { name: '{name}.ca', parts: ['chain'] },
+    ],
+    includeRoot: true,
+    chainOrder: 'leaf-first',
+    lineEnding: 'lf',
+    keyFormat: 'original',
+  },
+  {
+    id: 'nginx',
+    label: 'nginx',
+    files: [
+      { name: '{name}.fullchain.pem', parts: ['cert', 'chain'] },
+      { name: '{name}.key', parts: ['key'] },
+    ],
+    includeRoot: false,
+    chainOrder: 'leaf-first',
+    lineEnding: 'lf',
+    keyFormat: 'pkcs8',
+  },
+  {
+    id: 'haproxy',
+    label: 'HAProxy',
+    files: [
+      { name: '{name}.pem', parts: ['cert', 'chain', 'key'] },
+    ],
+    includeRoot: false,
+    chainOrder: 'leaf-first',
+    lineEnding: 'lf',
+    keyFormat: 'original',
+  },
+  {
+    id: 'radius',
+    label: 'FreeRADIUS',
+    files: [
+      { name: '{name}.pem', parts: ['cert'] },
+      { name: '{name}.key', parts: ['key'] },
+      { name: 'ca-{n}.pem', parts: ['chain'], perCertificate: true },
+    ],
+    includeRoot: true,
+    chainOrder: 'root-first',
+    lineEnding: 'lf',
+    keyFormat: 'pkcs1',
+  },
+];
+
+export const getOutputProfile = (id: string): OutputProfile =>
+  OUTPUT_PROFILES.find(p => p.id === id) || OUTPUT_PROFILES[0];
+
+export interface PackageFileLayout {
+  name: string;
+  parts: PackagePart[];
+  chain: string[]; // PEMs of the chain certificates this file carries
+}
+
+// Chain certificates as the profile wants them: with or without the root, in its order
+export const profileChain = (profile: OutputProfile, chainItems: ChainItem[]): string[] => {
+  const pems = chainItems.filter(item => profile.includeRoot || !item.isRoot).map(item => item.pem);
+  return profile.chainOrder === 'root-first' ? pems.reverse() : pems;
+};
+
+// Resolves file name templates into the concrete files of a package
+export const layoutPackage = (profile: OutputProfile, baseName: string, chainItems: ChainItem[]): PackageFileLayout[] => {
+  const chain = profileChain(profile, chainItems);
+  return profile.files.flatMap(spec => {
+    const name = spec.name.split('{name}').join(baseName);
+    if (!spec.perCertificate) return [{ name, parts: spec.parts, chain }];
+    return chain.map((pem, i) => ({ name: name.split('{n}').join(String(i + 1)), parts: spec.parts, chain: [pem] }));
+  });
+};
+
+const asBlock = (pem: string) => pem.trim() + '\n';
+
+// Renders each file of the package. An already encrypted key is written as is.
+export const buildPackageFiles = (
+  profile: OutputProfile,
+  baseName: string,
+  certPem: string,
+  keyPem: string,
+  chainItems: ChainItem[]
+): { name: string; content: string }[] => {
+  const key = isEncryptedKey(keyPem) ? keyPem : convertPrivateKey(keyPem, profile.keyFormat);
+
+  return layoutPackage(profile, baseName, chainItems).map(file => {
+    const content = file.parts.map(part => {
+      if (part === 'cert') return asBlock(certPem);
+      if (part === 'key') return asBlock(key);
+      return file.chain.map(asBlock).join('');
+    }).join('').replace(/\r\n/g, '\n'); // forge writes PEM with CRLF
+    return { name: file.name, content: profile.lineEnding === 'crlf' ? content.replace(/\n/g, '\r\n') : content };
+  });
+};
+
+// --- WiNG CLI Import Script ---
+
+export const WING_SERVICES: WingService[] = ['https', 'radius', 'syslog-tls'];
+
+// Device-context commands binding a trustpoint to each service
+const TRUSTPOINT_COMMANDS: Record<WingService, string[]> = {
+  'https': ['trustpoint https {tp}'],
+  'radius': ['trustpoint radius-ca {tp}', 'trustpoint radius-server {tp}'],
+  'syslog-tls': ['trustpoint syslog-tls {tp}'],
+};
+
+export const DEFAULT_WING_SCRIPT_SETTINGS: WingScriptSettings = {
+  protocol: 'sftp',
+  host: '',
+  path: '/',
+  username: '',
+  services: ['https'],
+};
+
+// WiNG trustpoint names are at most 32 characters of letters, digits, '.', '-' and '_'
+export const wingTrustpointName = (baseName: string): string =>
+  baseName.replace(/[^A-Za-z0-9._-]/g, '-').slice(0, 32) || 'trustpoint';
+
+// Import URL in the form the WiNG CLI expects; the password stays a placeholder
+export const transferUrl = (settings: WingScriptSettings, fileName: string): string => {
+  const withLogin = (settings.protocol === 'sftp' || settings.protocol === 'ftp') && settings.username;
+  const login = withLogin ? `${settings.username}:<PASSWORD>@` : '';
+  const dir = `/${settings.path.replace(/^\/+|\/+$/g, '')}/`.replace(/^\/\/$/, '/');
+  return `${settings.protocol}://${login}${settings.host || '<SERVER>'}${dir}${encodeURIComponent(fileName)}`;
+};
+
+// Ready-to-paste CLI that imports the package as a trustpoint and binds it to the selected services
+export const buildWingScript = (
+  settings: WingScriptSettings,
+  trustpoint: string,
+  packageFileName: string,
+  certFileName: string,
+  keyEncrypted: boolean
+): string => {
+  const passphrase = keyEncrypted ? ' passphrase <KEY-PASSPHRASE>' : '';
+  const lines = [
+    `! Trustpoint ${trustpoint}: replace the <...> placeholders before pasting`,
+    `crypto pki import trustpoint ${trustpoint} url ${transferUrl(settings, packageFileName)}${passphrase}`,
+    `! Renewal with the same key: upload the new certificate on its own and import only it`,
+    `! crypto pki import certificate ${trustpoint} url ${transferUrl(settings, certFileName)}`,
+  ];
+
+  const bindings = settings.services.flatMap(service => TRUSTPOINT_COMMANDS[service]);
+  if (bindings.length > 0) {
+    lines.push(
+      'configure terminal',
+      'self',
+      ...bindings.map(cmd => ' ' + cmd.split('{tp}').join(trustpoint)),
+      'commit write memory',
+      'end'
+    );
+  }
+  return lines.join('\n') + '\n';
+};
+
+// --- Package Inspection ---
+
+// Which member the validator reads for each part, by extension. Content is checked too (see inspectPackage).
+const ROLE_EXTENSIONS: Record<PackagePart, string[]> = {
+  cert: ['.crt', '.cer', '.pem', '.der'],
+  key: ['.key', '.prv'],
+  chain: ['.ca', '.bundle'],
+};
+
+const ROLE_KINDS: Record<PackagePart, InputKind[]> = {
+  cert: ['pem-cert', 'der-cert', 'pem-bundle'],
+  key: ['pem-key', 'pem-bundle'],
+  chain: ['pem-cert', 'pkcs7'],
+};
+
+const ROLE_LABELS: Record<PackagePart, string> = { cert: 'certificate', key: 'private key', chain: 'CA bundle' };
+
+// Member text as PEM (DER members are re-armored)
+export interface PackageMember {
+  path: string;
+  text: string;
+  size: number;
+}
+
+export interface PackageInspection {
+  findings: ValidationFinding[];
+  members: Partial<Record<PackagePart, PackageMember>>;
+}
+
+// Normalized member path, or null when it is absolute or could climb out of the extraction directory.
+// The extraction directory itself ('./', written by `tar -cf pkg.tar .`) normalizes to ''.
+export const normalizeMemberPath = (name: string): string | null => {
+  if (/[\x00-\x1f\\]/.test(name) || name.startsWith('/') || /^[A-Za-z]:/.test(name)) return null;
+  const segments = name.split('/').filter(s => s && s !== '.');
+  if (segments.includes('..')) return null;
+  return segments.join('/');
+};
+
+const stem = (path: string) => path.substring(path.lastIndexOf('/') + 1).replace(/\.[^.]*$/, '');
+
+// Picks the certificate, key and CA bundle out of an extracted package. Anything hostile or
+// ambiguous becomes a finding instead of being silently skipped or guessed at.
+export const inspectPackage = (files: ExtractedFile[]): PackageInspection => {
+  const findings: ValidationFinding[] = [];
+  const regular: (PackageMember & { kind: InputKind })[] = [];
+  const seen = new Map<string, number>();
+
+  for (const file of files) {
+    const path = normalizeMemberPath(file.name);
+    if (path === '') continue;
+    if (path === null) {
+      findings.push({ code: 'unsafe-path', severity: 'error', member: file.name, message: 'Absolute or parent-relative path; member ignored' });
+      continue;
+    }
+    if (file.type === 'directory') continue;
+    if (file.type !== 'file') {
+      findings.push({ code: 'non-regular-member', severity: 'warning', member: path, message: `Archive contains a ${file.type === 'link' ? 'link' : 'special file'}; member ignored` });
+      continue;
+    }
+    seen.set(path, (seen.get(path) || 0) + 1);
+    if (file.size === 0) {
+      findings.push({ code: 'empty-member', severity: 'warning', member: path, message: 'Member is empty' });
+      continue;
+    }
+    const sniffed = sniffContent(file.data, path);
+    regular.push({ path, text: sniffed.text || file.content, size: file.size, kind: sniffed.kind });
+  }
+
+  // A repeated path means extraction order decides which copy wins, so neither is trusted
+  const duplicates = [...seen].filter(([, count]) => count > 1).map(([path]) => path);
+  duplicates.forEach(path => findings.push({ code: 'duplicate-member', severity: 'error', member: path, message: 'Path occurs more than once in the archive; member ignored' }));
+  const usable = regular.filter(m => !duplicates.includes(m.path));
+
+  const members: PackageInspection['members'] = {};
+  const claimed = new Set<string>();
+  const roles: PackagePart[] = ['key', 'cert', 'chain']; // key first: its name disambiguates certificates
+
+  for (const role of roles) {
+    const byName = usable.filter(m => ROLE_EXTENSIONS[role].some(ext => m.path.toLowerCase().endsWith(ext)));
+    let candidates = byName.filter(m => ROLE_KINDS[role].includes(m.kind));
+    byName.filter(m => !candidates.includes(m)).forEach(m => {
+      claimed.add(m.path);
+      findings.push({ code: 'unexpected-content', severity: 'warning', member: m.path, message: `Named like a ${ROLE_LABELS[role]} but does not contain one` });
+    });
+
+    // e.g. FreeRADIUS layout: {name}.pem next to {name}.key and ca-1.pem
+    if (role === 'cert' && candidates.length > 1 && members.key) {
+      const paired = candidates.filter(m => stem(m.path) === stem(members.key!.path));
+      if (paired.length === 1) {
+        candidates.filter(m => m !== paired[0]).forEach(m => claimed.add(m.path));
+        candidates = paired;
+      }
+    }
+
+    if (candidates.length > 1) {
+      candidates.forEach(m => claimed.add(m.path));
+      findings.push({
+        code: 'ambiguous-member',
+        severity: 'error',
+        member: candidates.map(m => m.path).join(', '),
+        message: `${candidates.length} members could be the ${ROLE_LABELS[role]}; none was used`,
+      });
+    } else if (candidates.length === 1) {
+      const { kind, ...member } = candidates[0];
+      members[role] = member;
+      claimed.add(member.path);
+      // HAProxy layout: certificate, chain and key in one .pem
+      if (role === 'cert' && kind === 'pem-bundle' && !members.key) members.key = member;
+    }
+  }
+
+  const known = (path: string) => path.endsWith('.txt') || path === MANIFEST_FILE || path === SIGNATURE_FILE;
+  usable.filter(m => !claimed.has(m.path) && !known(m.path)).forEach(m =>
+    findings.push({ code: 'unrecognized-member', severity: 'info', member: m.path, message: 'Not a certificate, key or CA bundle by name; not checked' })
+  );
+
+  return { findings, members };
+};
+
+// --- Package Manifest ---
+
+export const MANIFEST_FILE = 'MANIFEST.json';
+export const SIGNATURE_FILE = 'MANIFEST.sig';
+
+export const TOOL_VERSION = `wing-trustpoint-builder/${process.env.APP_VERSION || '0.0.0'}`;
+
+const TRUSTED_SIGNERS_KEY = 'trustedSigners';
+
+export const loadTrustedSigners = (): TrustedSigner[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TRUSTED_SIGNERS_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveTrustedSigners = (signers: TrustedSigner[]) => {
+  localStorage.setItem(TRUSTED_SIGNERS_KEY, JSON.stringify(signers));
+};
+
+const certificateEntry = (pem: string) => ({ subject: parseCertificate(pem).info.commonName, sha256: certificateSha256(pem) });
+
+const encodeJson = (value: unknown) => new TextEncoder().encode(JSON.stringify(value, null, 2) + '\n');
+
+// Appends MANIFEST.json, and MANIFEST.sig when an (unencrypted) signing key is given. sourceDate is
+// the package timestamp (the tar mtime), not the wall clock, so rebuilding gives the same manifest.
+// builtAt, the real build time, is only recorded when given; the package is then not reproducible.
+export const addManifest = (
+  files: { name: string; content: string | Uint8Array }[],
+  certPem: string,
+  chainPems: string[],
+  signingKeyPem: string | null | undefined,
+  sourceDate: Date,
+  builtAt?: Date
+): { name: string; content: string | Uint8Array }[] => {
+  const manifest: PackageManifest = {
+    format: 1,
+    tool: TOOL_VERSION,
+    sourceDate: sourceDate.toISOString(),
+    ...(builtAt ? { builtAt: builtAt.toISOString() } : {}),
+    leaf: certificateEntry(certPem),
+    chain: chainPems.map(certificateEntry),
+    files: [...files].sort((a, b) => compareNames(a.name, b.name)).map(f => ({
+      name: f.name,
+      size: typeof f.content === 'string' ? new TextEncoder().encode(f.content).length : f.content.length,
+      sha256: sha256Hex(f.content),
+    })),
+  };
+  const manifestBytes = encodeJson(manifest);
+  const result = [...files, { name: MANIFEST_FILE, content: manifestBytes }];
+
+  if (signingKeyPem) {
+    const { signer, signature } = signDetached(signingKeyPem, manifestBytes);
+    const detached: ManifestSignature = { algorithm: signer.algorithm, publicKey: signer.publicKey, signature };
+    result.push({ name: SIGNATURE_FILE, content: encodeJson(detached) });
+  }
+  return result;
+};
+
+const isManifest = (value: any): value is PackageManifest =>
+  value?.format === 1 && Array.isArray(value.files) && Array.isArray(value.chain) && typeof value.leaf?.sha256 === 'string' &&
+  value.files.every((f: any) => typeof f?.name === 'string' && typeof f.sha256 === 'string');
+
+// Compares the archive against its manifest and checks the signature against the trusted signers
+export const verifyManifest = (
+  files: ExtractedFile[],
+  inspection: PackageInspection,
+  trustedSigners: TrustedSigner[]
+): { check: ManifestCheck; findings: ValidationFinding[] } => {
+  const findings: ValidationFinding[] = [];
+  const check: ManifestCheck = { present: false, intact: false, signature: 'unsigned' };
+
+  // Hash what was actually extracted; a path seen twice can't be matched to one entry
+  const hashes = new Map<string, string | null>();
+  files.forEach(f => {
+    const path = f.type === 'file' ? normalizeMemberPath(f.name) : null;
+    if (path) hashes.set(path, hashes.has(path) ? null : sha256Hex(f.data));
+  });
+
+  const manifestFile = files.find(f => normalizeMemberPath(f.name) === MANIFEST_FILE);
+  if (!manifestFile) {
+    findings.push({ code: 'manifest-missing', severity: 'warning', message: `No ${MANIFEST_FILE}; the package can't be checked for tampering` });
+    return { check, findings };
+  }
+  check.present = true;
+
+  let manifest: PackageManifest;
+  try {
+    manifest = JSON.parse(manifestFile.content);
+    if (!isManifest(manifest)) throw new Error();
+  } catch (e) {
+    findings.push({ code: 'manifest-invalid', severity: 'error', member: MANIFEST_FILE, message: 'Manifest is not valid JSON in the expected format' });
+    return { check, findings };
+  }
+  check.tool = manifest.tool;
+  check.sourceDate = manifest.sourceDate;
+  if (typeof manifest.builtAt === 'string') check.builtAt = manifest.builtAt;
+
+  const problems = findings.length;
+  const listed = new Set(manifest.files.map(f => f.name));
+  manifest.files.forEach(entry => {
+    if (!hashes.has(entry.name)) {
+      findings.push({ code: 'member-missing', severity: 'error', member: entry.name, message: 'Listed in the manifest but not in the archive' });
+    } else if (hashes.get(entry.name) !== entry.sha256.toLowerCase()) {
+      findings.push({ code: 'member-modified', severity: 'error', member: entry.name, message: 'Content differs from the SHA-256 recorded at build time' });
+    }
+  });
+  [...hashes.keys()].filter(path => !listed.has(path) && path !== MANIFEST_FILE && path !== SIGNATURE_FILE).forEach(path =>
+    findings.push({ code: 'member-unlisted', severity: 'error', member: path, message: 'Not listed in the manifest (added after the build)' })
+  );
+
+  const { cert, chain } = inspection.members;
+  try {
+    if (cert && certificateSha256(cert.text) !== manifest.leaf.sha256.toLowerCase()) {
+      findings.push({ code: 'manifest-leaf-mismatch', severity: 'error', member: cert.path, message: 'Leaf certificate fingerprint differs from the manifest' });
+    }
+    if (chain) {
+      const actual = splitCaBundle(chain.text).map(certificateSha256).sort().join();
+      if (actual !== manifest.chain.map(c => c.sha256.toLowerCase()).sort().join()) {
+        findings.push({ code: 'manifest-chain-mismatch', severity: 'error', member: chain.path, message: 'CA bundle fingerprints differ from the manifest' });
+      }
+    }
+  } catch (e) {
+    // Unparseable certificates are reported by the certificate checks
+  }
+  check.intact = findings.length === problems;
+
+  const signatureFile = files.find(f => normalizeMemberPath(f.name) === SIGNATURE_FILE);
+  if (!signatureFile) {
+    findings.push({ code: 'unsigned', severity: 'warning', member: MANIFEST_FILE, message: 'Manifest is not signed' });
+    return { check, findings };
+  }
+
+  let detached: ManifestSignature | null = null;
+  try {
+    detached = JSON.parse(signatureFile.content);
+  } catch (e) {
+    // handled below as an invalid signature
+  }
+  if (!detached || !verifyDetached(detached.publicKey, detached.algorithm, manifestFile.data, detached.signature)) {
+    check.signature = 'invalid';
+    findings.push({ code: 'signature-invalid', severity: 'error', member: SIGNATURE_FILE, message: 'Manifest signature does not verify' });
+    return { check, findings };
+  }
+
+  const fingerprint = publicKeyFingerprint(detached.publicKey);
+  const trusted = trustedSigners.find(s => s.fingerprint === fingerprint);
+  check.signer = { fingerprint, name: trusted?.name || '' };
+  if (trusted) {
+    check.signature = 'trusted';
+    findings.push({ code: 'signed', severity: 'info', member: SIGNATURE_FILE, message: `Signed by ${trusted.name} (${detached.algorithm})` });
+  } else {
+    check.signature = 'untrusted';
+    findings.push({ code: 'signer-untrusted', severity: 'warning', member: SIGNATURE_FILE, message: `Valid ${detached.algorithm} signature from an unknown key (SHA-256 ${fingerprint})` });
+  }
+  return { check, findings };
+};
@@ -0,0 +1,252 @@
+import forge from 'node-forge';
+import { PathProblem, PathValidation } from '../types';
+import { DecodedCertificate, loadCertificate, verifySignature } from './cryptoService';
+
+// RFC 5280 section 6.1 path validation, minus policy processing. The path is given leaf first
+// and ends at the trust anchor; every problem found is reported, not just the first.
+
+const OID_SUBJECT_KEY_IDENTIFIER = '2.5.29.14';
+const OID_KEY_USAGE = '2.5.29.15';
+const OID_SUBJECT_ALT_NAME = '2.5.29.17';
+const OID_BASIC_CONSTRAINTS = '2.5.29.19';
+const OID_NAME_CONSTRAINTS = '2.5.29.30';
+const OID_AUTHORITY_KEY_IDENTIFIER = '2.5.29.35';
+const OID_EMAIL_ADDRESS = '1.2.840.113549.1.9.1';
+
+// Extensions a critical flag is allowed on. Policy extensions are recognized but not enforced.
+const KNOWN_EXTENSIONS = new Set([
+  OID_SUBJECT_KEY_IDENTIFIER, OID_KEY_USAGE, OID_SUBJECT_ALT_NAME, '2.5.29.18', OID_BASIC_CONSTRAINTS,
+  OID_NAME_CONSTRAINTS, '2.5.29.31', '2.5.29.32', '2.5.29.33', OID_AUTHORITY_KEY_IDENTIFIER, '2.5.29.36',
+  '2.5.29.37', '2.5.29.54', '1.3.6.1.5.5.7.1.1',
+]);
+
+const extension = (cert: DecodedCertificate, oid: string): any => cert.extensions.find(e => e.id === oid);
+
+const label = (cert: DecodedCertificate): string =>
+  (cert.subject.find(a => a.shortName === 'CN') || cert.subject[cert.subject.length - 1])?.value || '(empty subject)';
+
+const formatName = (attrs: any[]): string => attrs.map(a => `${a.shortName || a.type}=${a.value}`).join(', ');
+
+// RFC 5280 7.1: attribute values compare case-insensitively with whitespace collapsed
+const normalizeValue = (value: unknown) => String(value).trim().replace(/\s+/g, ' ').toLowerCase();
+
+const sameAttributes = (a: any[], b: any[]): boolean =>
+  a.length === b.length && a.every((attr, i) => attr.type === b[i].type && normalizeValue(attr.value) === normalizeValue(b[i].value));
+
+const isSelfIssued = (cert: DecodedCertificate) => sameAttributes(cert.issuer, cert.subject);
+
+// Comparable form of a DN, for indexing certificates by subject
+export const nameKey = (attrs: any[]): string => attrs.map(a => `${a.type}=${normalizeValue(a.value)}`).join('/');
+
+const isSelfSigned = (cert: DecodedCertificate): boolean => {
+  try {
+    return isSelfIssued(cert) && verifySignature(cert, cert.publicKey);
+  } catch (e) {
+    return false;
+  }
+};
+
+export const authorityKeyId = (cert: DecodedCertificate): string | null => {
+  const ext = extension(cert, OID_AUTHORITY_KEY_IDENTIFIER);
+  if (!ext) return null;
+  const keyId = forge.asn1.fromDer(ext.value).value.find((v: any) => v.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && v.type === 0);
+  return keyId ? forge.util.bytesToHex(keyId.value) : null;
+};
+
+// --- Name Constraints ---
+
+type NameType = 'dns' | 'email' | 'uri' | 'ip' | 'dn';
+
+interface Subtree {
+  type: NameType;
+  value: any; // string, address+mask bytes, or Name attributes
+}
+
+const GENERAL_NAME_TYPES: Record<number, NameType> = { 1: 'email', 2: 'dns', 4: 'dn', 6: 'uri', 7: 'ip' };
+
+const readSubtrees = (node: any): Subtree[] =>
+  (node?.value || []).map((subtree: any) => {
+    const base = subtree.value[0];
+    const type = GENERAL_NAME_TYPES[base.type];
+    if (!type) throw new Error(`GeneralName type [${base.type}] is not supported`);
+    return { type, value: type === 'dn' ? forge.pki.RDNAttributesAsArray(base.value[0]) : base.value };
+  });
+
+const readNameConstraints = (cert: DecodedCertificate) => {
+  const ext = extension(cert, OID_NAME_CONSTRAINTS);
+  if (!ext) return null;
+  const fields = forge.asn1.fromDer(ext.value).value;
+  const tagged = (tag: number) => fields.find((f: any) => f.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && f.type === tag);
+  return { permitted: readSubtrees(tagged(0)), excluded: readSubtrees(tagged(1)) };
+};
+
+// A constraint with a leading dot covers subdomains only; without one, the host and its subdomains
+const hostMatches = (host: string, constraint: string, subdomains = true): boolean => {
+  const h = host.toLowerCase();
+  const c = constraint.toLowerCase();
+  if (!c) return true;
+  if (c.startsWith('.')) return h.endsWith(c);
+  return h === c || (subdomains && h.endsWith(`.${c}`));
+};
+
+const nameMatches = (type: NameType, name: any, constraint: any): boolean => {
+  switch (type) {
+    case 'dns':
+      return hostMatches(name, constraint);
+    case 'email': {
+      if (constraint.includes('@')) return name.toLowerCase() === constraint.toLowerCase();
+      return hostMatches(name.substring(name.lastIndexOf('@') + 1), constraint, false);
+    }
+    case 'uri': {
+      const host = /^[a-z][a-z0-9+.-]*:\/\/(?:[^@/]*@)?(\[[^\]]*\]|[^:/?#]*)/i.exec(name)?.[1];
+      return !!host && hostMatches(host, constraint, false);
+    }
+    case 'ip': {
+      if (constraint.length !== name.length * 2) return false;
+      for (let i = 0; i < name.length; i++) {
+        const mask = constraint.charCodeAt(name.length + i);
+        if ((name.charCodeAt(i) & mask) !== (constraint.charCodeAt(i) & mask)) return false;
+      }
+      return true;
+    }
+    case 'dn':
+      return constraint.length <= name.length && sameAttributes(name.slice(0, constraint.length), constraint);
+  }
+};
+
+const describeName = (type: NameType, name: any): string =>
+  type === 'ip' ? Array.from(name as string, c => c.charCodeAt(0)).join(name.length === 4 ? '.' : ':') :
+  type === 'dn' ? formatName(name) :
+  name;
+
+const certificateNames = (cert: DecodedCertificate): { type: NameType; value: any }[] => {
+  const names: { type: NameType; value: any }[] = [];
+  if (cert.subject.length > 0) names.push({ type: 'dn', value: cert.subject });
+  cert.subject.filter(a => a.type === OID_EMAIL_ADDRESS).forEach(a => names.push({ type: 'email', value: a.value }));
+  (extension(cert, OID_SUBJECT_ALT_NAME)?.altNames || []).forEach((alt: any) => {
+    const type = GENERAL_NAME_TYPES[alt.type];
+    if (type && type !== 'dn') names.push({ type, value: alt.value });
+  });
+  return names;
+};
+
+// First name of cert that the constraints rule out, as a message
+const constraintViolation = (cert: DecodedCertificate, constraints: { permitted: Subtree[]; excluded: Subtree[] }): string | null => {
+  for (const name of certificateNames(cert)) {
+    const excluded = constraints.excluded.find(c => c.type === name.type && nameMatches(name.type, name.value, c.value));
+    if (excluded) return `${name.type.toUpperCase()} name ${describeName(name.type, name.value)} is in an excluded subtree`;
+
+    const permitted = constraints.permitted.filter(c => c.type === name.type);
+    if (permitted.length > 0 && !permitted.some(c => nameMatches(name.type, name.value, c.value))) {
+      return `${name.type.toUpperCase()} name ${describeName(name.type, name.value)} is outside the permitted subtrees`;
+    }
+  }
+  return null;
+};
+
+// --- Path Validation ---
+
+export const validatePath = (pems: string[], at: Date = new Date()): PathValidation => {
+  const certificates: PathProblem[][] = pems.map(() => []);
+  const links: PathProblem[][] = pems.slice(1).map(() => []);
+
+  const decoded = pems.map((pem, i) => {
+    try {
+      return loadCertificate(pem);
+    } catch (e) {
+      certificates[i].push({ code: 'unparseable', message: 'Certificate cannot be decoded' });
+      return null;
+    }
+  });
+
+  decoded.forEach((cert, i) => {
+    if (!cert) return;
+    if (at < cert.notBefore) {
+      certificates[i].push({ code: 'not-yet-valid', message: `Not valid before ${cert.notBefore.toISOString()}` });
+    } else if (at > cert.notAfter) {
+      certificates[i].push({ code: 'expired', message: `Expired on ${cert.notAfter.toISOString()}` });
+    }
+    cert.extensions.filter(e => e.critical && !KNOWN_EXTENSIONS.has(e.id)).forEach(e =>
+      certificates[i].push({ code: 'unknown-critical-extension', message: `Unrecognized critical extension ${e.id}` })
+    );
+  });
+
+  for (let i = 0; i < decoded.length - 1; i++) {
+    const child = decoded[i];
+    const issuer = decoded[i + 1];
+    if (!child || !issuer) continue;
+    const problems = links[i];
+
+    let signed = false;
+    try {
+      signed = verifySignature(child, issuer.publicKey);
+    } catch (e) {
+      // malformed signature: reported below
+    }
+    if (!signed) {
+      problems.push({ code: 'signature-invalid', message: `Signature on ${label(child)} does not verify with the key of ${label(issuer)}` });
+    }
+
+    if (!sameAttributes(child.issuer, issuer.subject)) {
+      problems.push({ code: 'name-mismatch', message: `Issuer "${formatName(child.issuer)}" is not the subject "${formatName(issuer.subject)}"` });
+    }
+
+    try {
+      const akid = authorityKeyId(child);
+      const skid = extension(issuer, OID_SUBJECT_KEY_IDENTIFIER)?.subjectKeyIdentifier;
+      if (akid && skid && akid !== skid) {
+        problems.push({ code: 'aki-ski-mismatch', message: `Authority key ID ${akid} does not match subject key ID ${skid}` });
+      }
+    } catch (e) {
+      certificates[i].push({ code: 'unparseable', message: 'Authority key identifier cannot be decoded' });
+    }
+
+    // A self-signed anchor without extensions is an X.509 v1 root, which predates basicConstraints
+    const v1Anchor = i + 1 === decoded.length - 1 && issuer.extensions.length === 0 && isSelfSigned(issuer);
+    if (v1Anchor) continue;
+
+    const basicConstraints = extension(issuer, OID_BASIC_CONSTRAINTS);
+    if (!basicConstraints?.cA) {
+      problems.push({ code: 'not-ca', message: `${label(issuer)} is not a CA (basicConstraints cA is not set)` });
+    }
+    const keyUsage = extension(issuer, OID_KEY_USAGE);
+    if (keyUsage && !keyUsage.keyCertSign) {
+      problems.push({ code: 'no-key-cert-sign', message: `${label(issuer)} key usage does not include keyCertSign` });
+    }
+    const pathLen = basicConstraints?.pathLenConstraint;
+    if (basicConstraints?.cA && typeof pathLen === 'number' && pathLen >= 0) {
+      // Self-issued intermediates don't count (RFC 5280 4.2.1.9)
+      const below = decoded.slice(1, i + 1).filter(c => c && !isSelfIssued(c)).length;
+      if (below > pathLen) {
+        problems.push({ code: 'path-length-exceeded', message: `${label(issuer)} allows ${pathLen} intermediate CA(s) below it, the path has ${below}` });
+      }
+    }
+  }
+
+  // Name constraints of a CA apply to everything below it, except self-issued intermediates
+  decoded.forEach((ca, k) => {
+    if (!ca || k === 0) return;
+    let constraints;
+    try {
+      constraints = readNameConstraints(ca);
+    } catch (e: any) {
+      certificates[k].push({ code: 'unparseable', message: `Name constraints cannot be processed: ${e.message}` });
+      return;
+    }
+    if (!constraints) return;
+    for (let j = 0; j < k; j++) {
+      const cert = decoded[j];
+      if (!cert || (j > 0 && isSelfIssued(cert))) continue;
+      const violation = constraintViolation(cert, constraints);
+      if (violation) certificates[j].push({ code: 'name-constraints', message: `${violation} of ${label(ca)}` });
+    }
+  });
+
+  const last = decoded[decoded.length - 1];
+  return {
+    valid: [...certificates, ...links].every(p => p.length === 0),
+    anchored: decoded.length > 1 && !!last && isSelfSigned(last),
+    certificates,
+    links,
+  };
+};
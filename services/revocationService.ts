@@ -0,0 +1,297 @@
+import forge from 'node-forge';
+import { RevocationStatus } from '../types';
+import {
+  DecodedCertificate, SignedData, bitStringBytes, loadCertificate, readAuthorityInfoAccess,
+  readCrlDistributionPoints, readTime, verifySignature,
+} from './cryptoService';
+import { fetchWithRelay } from './fetchRelayService';
+import { nameKey } from './pathValidationService';
+
+// Revocation checking (RFC 5280 CRLs, RFC 6960 OCSP) for one certificate against its issuer.
+// Uploaded CRLs are consulted first so checks work offline; delta and indirect CRLs are not supported.
+
+const OID_KEY_USAGE = '2.5.29.15';
+const OID_EXT_KEY_USAGE = '2.5.29.37';
+const OID_CRL_REASON = '2.5.29.21';
+const OID_DELTA_CRL_INDICATOR = '2.5.29.27';
+const OID_CERTIFICATE_ISSUER = '2.5.29.29';
+const OID_OCSP_BASIC = '1.3.6.1.5.5.7.48.1.1';
+const OID_KP_OCSP_SIGNING = '1.3.6.1.5.5.7.3.9';
+const OID_SHA1 = '1.3.14.3.2.26';
+const OID_SHA256 = '2.16.840.1.101.3.4.2.1';
+
+// CRLReason codes; 7 is unused
+const CRL_REASONS = [
+  'unspecified', 'keyCompromise', 'cACompromise', 'affiliationChanged', 'superseded', 'cessationOfOperation',
+  'certificateHold', '', 'removeFromCRL', 'privilegeWithdrawn', 'aACompromise',
+];
+
+const OCSP_RESPONSE_STATUSES = ['successful', 'malformedRequest', 'internalError', 'tryLater', '', 'sigRequired', 'unauthorized'];
+
+const { Class, Type } = forge.asn1;
+const isContextTag = (node: any, tag: number) => node?.tagClass === Class.CONTEXT_SPECIFIC && node.type === tag;
+const isTime = (node: any) => node?.tagClass === Class.UNIVERSAL && (node.type === Type.UTCTIME || node.type === Type.GENERALIZEDTIME);
+
+const readSigned = (root: any): SignedData => ({
+  tbs: forge.asn1.toDer(root.value[0]).getBytes(),
+  signatureOid: forge.asn1.derToOid(root.value[1].value[0].value),
+  signature: bitStringBytes(root.value[2]),
+});
+
+const describeName = (attrs: any[]) => attrs.map(a => `${a.shortName || a.type}=${a.value}`).join(', ');
+
+// --- CRL ---
+
+export interface RevokedEntry {
+  date: Date;
+  reason?: string;
+}
+
+export interface CrlInfo {
+  name: string; // file name or URL the CRL came from
+  issuer: any[];
+  issuerName: string;
+  thisUpdate: Date;
+  nextUpdate?: Date;
+  revoked: Map<string, RevokedEntry>; // by serial number, hex
+  signed: SignedData;
+}
+
+// Extensions in an entry or CRL extension list, as [oid, critical, value DER]
+const readExtensions = (list: any): { id: string; critical: boolean; value: string }[] =>
+  (list?.value || []).map((ext: any) => ({
+    id: forge.asn1.derToOid(ext.value[0].value),
+    critical: ext.value.length === 3 && ext.value[1].value === '\xff',
+    value: ext.value[ext.value.length - 1].value,
+  }));
+
+// A DER or PEM ("X509 CRL") certificate revocation list
+export const parseCrl = (bytes: Uint8Array, name: string): CrlInfo => {
+  let der = forge.util.binary.raw.encode(bytes);
+  if (der.includes('-----BEGIN X509 CRL-----')) {
+    const block = forge.pem.decode(new TextDecoder().decode(bytes)).find((b: any) => b.type === 'X509 CRL');
+    if (!block) throw new Error('No X509 CRL block found');
+    der = block.body;
+  }
+
+  const root = forge.asn1.fromDer(der, { decodeBitStrings: false });
+  const fields = root.value[0].value;
+  let i = 0;
+  if (fields[0].tagClass === Class.UNIVERSAL && fields[0].type === Type.INTEGER) i++; // version
+  i++; // signature (repeated in the outer structure)
+  const issuer = forge.pki.RDNAttributesAsArray(fields[i++]);
+  const thisUpdate = readTime(fields[i++]);
+  const nextUpdate = isTime(fields[i]) ? readTime(fields[i++]) : undefined;
+  const entries = fields[i]?.tagClass === Class.UNIVERSAL && fields[i].type === Type.SEQUENCE ? fields[i++].value : [];
+  const crlExtensions = readExtensions(fields.find((f: any) => isContextTag(f, 0))?.value[0]);
+
+  if (crlExtensions.some(e => e.id === OID_DELTA_CRL_INDICATOR)) throw new Error('Delta CRLs are not supported');
+
+  const revoked = new Map<string, RevokedEntry>();
+  for (const entry of entries) {
+    const extensions = readExtensions(entry.value[2]);
+    if (extensions.some(e => e.id === OID_CERTIFICATE_ISSUER)) throw new Error('Indirect CRLs are not supported');
+    const reason = extensions.find(e => e.id === OID_CRL_REASON);
+    revoked.set(forge.util.bytesToHex(entry.value[0].value), {
+      date: readTime(entry.value[1]),
+      reason: reason ? CRL_REASONS[forge.asn1.fromDer(reason.value).value.charCodeAt(0)] : undefined,
+    });
+  }
+
+  return { name, issuer, issuerName: describeName(issuer), thisUpdate, nextUpdate, revoked, signed: readSigned(root) };
+};
+
+export const crlStatus = (crl: CrlInfo, cert: DecodedCertificate, issuer: DecodedCertificate, at: Date = new Date()): RevocationStatus => {
+  const base = { method: 'crl' as const, source: crl.name };
+  if (nameKey(crl.issuer) !== nameKey(issuer.subject)) {
+    return { ...base, state: 'error', message: `CRL is issued by ${crl.issuerName}, not the certificate's issuer` };
+  }
+  let signed = false;
+  try {
+    signed = verifySignature(crl.signed, issuer.publicKey);
+  } catch (e) {
+    // malformed signature: reported below
+  }
+  if (!signed) return { ...base, state: 'error', message: 'CRL signature does not verify with the issuer key' };
+  const keyUsage = issuer.extensions.find(e => e.id === OID_KEY_USAGE);
+  if (keyUsage && !keyUsage.cRLSign) return { ...base, state: 'error', message: 'Issuer key usage does not include cRLSign' };
+
+  const entry = crl.revoked.get(cert.serialNumber);
+  if (entry) {
+    return {
+      ...base,
+      state: 'revoked',
+      revokedAt: entry.date.toISOString(),
+      reason: entry.reason,
+      message: `Revoked on ${entry.date.toISOString()}${entry.reason ? ` (${entry.reason})` : ''}`,
+    };
+  }
+  if (crl.nextUpdate && crl.nextUpdate < at) {
+    return { ...base, state: 'unknown', message: `CRL is out of date (next update was due ${crl.nextUpdate.toISOString()})` };
+  }
+  return { ...base, state: 'good', message: `Not on the CRL of ${crl.thisUpdate.toISOString()}` };
+};
+
+// --- OCSP ---
+
+const hash = (oid: string, data: string): string => {
+  const md = oid === OID_SHA256 ? forge.md.sha256.create() : forge.md.sha1.create();
+  return md.update(data).digest().getBytes();
+};
+
+const certId = (cert: DecodedCertificate, issuer: DecodedCertificate) =>
+  forge.asn1.create(Class.UNIVERSAL, Type.SEQUENCE, true, [
+    forge.asn1.create(Class.UNIVERSAL, Type.SEQUENCE, true, [
+      forge.asn1.create(Class.UNIVERSAL, Type.OID, false, forge.asn1.oidToDer(OID_SHA1).getBytes()),
+      forge.asn1.create(Class.UNIVERSAL, Type.NULL, false, ''),
+    ]),
+    forge.asn1.create(Class.UNIVERSAL, Type.OCTETSTRING, false, hash(OID_SHA1, issuer.subjectDer)),
+    forge.asn1.create(Class.UNIVERSAL, Type.OCTETSTRING, false, hash(OID_SHA1, issuer.publicKeyBits)),
+    forge.asn1.create(Class.UNIVERSAL, Type.INTEGER, false, forge.util.hexToBytes(cert.serialNumber)),
+  ]);
+
+// OCSPRequest for a single certificate, unsigned and without a nonce so responders can serve it from cache
+export const buildOcspRequest = (cert: DecodedCertificate, issuer: DecodedCertificate): string =>
+  forge.asn1.toDer(
+    forge.asn1.create(Class.UNIVERSAL, Type.SEQUENCE, true, [
+      forge.asn1.create(Class.UNIVERSAL, Type.SEQUENCE, true, [ // tbsRequest
+        forge.asn1.create(Class.UNIVERSAL, Type.SEQUENCE, true, [ // requestList
+          forge.asn1.create(Class.UNIVERSAL, Type.SEQUENCE, true, [certId(cert, issuer)]),
+        ]),
+      ]),
+    ])
+  ).getBytes();
+
+// The response must be signed by the issuer or by a responder certificate the issuer delegated to
+const ocspSigner = (signed: SignedData, embedded: any[], issuer: DecodedCertificate, at: Date): string | null => {
+  if (verifySignature(signed, issuer.publicKey)) return 'issuer';
+  for (const node of embedded) {
+    const responder = loadCertificate(forge.pem.encode({ type: 'CERTIFICATE', body: forge.asn1.toDer(node).getBytes() }));
+    const delegated = responder.extensions.find(e => e.id === OID_EXT_KEY_USAGE)?.[OID_KP_OCSP_SIGNING];
+    if (
+      delegated && at >= responder.notBefore && at <= responder.notAfter &&
+      verifySignature(responder, issuer.publicKey) && verifySignature(signed, responder.publicKey)
+    ) {
+      return describeName(responder.subject);
+    }
+  }
+  return null;
+};
+
+export const parseOcspResponse = (
+  der: string,
+  cert: DecodedCertificate,
+  issuer: DecodedCertificate,
+  source: string,
+  at: Date = new Date()
+): RevocationStatus => {
+  const base = { method: 'ocsp' as const, source };
+  const root = forge.asn1.fromDer(der, { decodeBitStrings: false });
+  const status = root.value[0].value.charCodeAt(0);
+  if (status !== 0) return { ...base, state: 'error', message: `Responder answered ${OCSP_RESPONSE_STATUSES[status] || status}` };
+
+  const responseBytes = root.value[1].value[0];
+  if (forge.asn1.derToOid(responseBytes.value[0].value) !== OID_OCSP_BASIC) {
+    return { ...base, state: 'error', message: 'Response is not a basic OCSP response' };
+  }
+  const basic = forge.asn1.fromDer(responseBytes.value[1].value, { decodeBitStrings: false });
+  const embedded = basic.value.find((v: any) => isContextTag(v, 0))?.value[0].value || [];
+  let signer: string | null = null;
+  try {
+    signer = ocspSigner(readSigned(basic), embedded, issuer, at);
+  } catch (e) {
+    // malformed signature or responder certificate: reported below
+  }
+  if (!signer) return { ...base, state: 'error', message: 'Response is not signed by the issuer or an authorized responder' };
+
+  // ResponseData: [0] version?, responderID ([1] or [2]), producedAt, responses, [1] extensions?
+  const responses = basic.value[0].value.find((v: any) => v.tagClass === Class.UNIVERSAL && v.type === Type.SEQUENCE)?.value || [];
+  const single = responses.find((r: any) => {
+    const [algorithm, , keyHash, serial] = r.value[0].value;
+    const oid = forge.asn1.derToOid(algorithm.value[0].value);
+    return forge.util.bytesToHex(serial.value) === cert.serialNumber && keyHash.value === hash(oid, issuer.publicKeyBits);
+  });
+  if (!single) return { ...base, state: 'error', message: 'Response does not cover this certificate' };
+
+  const [, certStatus, thisUpdateNode, ...rest] = single.value;
+  const thisUpdate = readTime(thisUpdateNode);
+  const nextUpdateNode = rest.find((v: any) => isContextTag(v, 0));
+  const nextUpdate = nextUpdateNode ? readTime(nextUpdateNode.value[0]) : undefined;
+  // Allow a few minutes of clock skew between us and the responder
+  if (thisUpdate.getTime() > at.getTime() + 5 * 60 * 1000) return { ...base, state: 'error', message: 'Response is dated in the future' };
+  if (nextUpdate && nextUpdate < at) return { ...base, state: 'unknown', message: `Response is out of date (next update was due ${nextUpdate.toISOString()})` };
+
+  const by = signer === 'issuer' ? '' : ` (signed by ${signer})`;
+  if (isContextTag(certStatus, 0)) return { ...base, state: 'good', message: `Good as of ${thisUpdate.toISOString()}${by}` };
+  if (isContextTag(certStatus, 1)) {
+    const revokedAt = readTime(certStatus.value[0]);
+    const reasonNode = certStatus.value.find((v: any) => isContextTag(v, 0));
+    const reason = reasonNode ? CRL_REASONS[reasonNode.value[0].value.charCodeAt(0)] : undefined;
+    return {
+      ...base,
+      state: 'revoked',
+      revokedAt: revokedAt.toISOString(),
+      reason,
+      message: `Revoked on ${revokedAt.toISOString()}${reason ? ` (${reason})` : ''}${by}`,
+    };
+  }
+  return { ...base, state: 'unknown', message: `Responder does not know this certificate${by}` };
+};
+
+// RFC 6960 A.1 GET form; single-certificate requests stay well under the 255-byte guideline
+const ocspGetUrl = (url: string, request: string) =>
+  `${url.endsWith('/') ? url : `${url}/`}${encodeURIComponent(forge.util.encode64(request))}`;
+
+// --- Checking ---
+
+export interface RevocationOptions {
+  crls: CrlInfo[]; // uploaded, consulted first
+  online: boolean; // also query OCSP responders and CRL distribution points
+  at?: Date;
+}
+
+const isDefinitive = (status: RevocationStatus) => status.state === 'good' || status.state === 'revoked';
+
+export const checkRevocation = async (certPem: string, issuerPem: string, { crls, online, at = new Date() }: RevocationOptions): Promise<RevocationStatus> => {
+  const cert = loadCertificate(certPem);
+  const issuer = loadCertificate(issuerPem);
+  const problems: string[] = [];
+
+  // Newest uploaded CRL from this issuer first
+  const uploaded = crls.filter(c => nameKey(c.issuer) === nameKey(issuer.subject)).sort((a, b) => b.thisUpdate.getTime() - a.thisUpdate.getTime());
+  for (const crl of uploaded) {
+    const status = crlStatus(crl, cert, issuer, at);
+    if (isDefinitive(status)) return status;
+    problems.push(`${crl.name}: ${status.message}`);
+  }
+  if (!online) {
+    return { state: 'unknown', message: problems.join('; ') || `No uploaded CRL from ${describeName(issuer.subject)}` };
+  }
+
+  const { ocsp } = readAuthorityInfoAccess(cert);
+  for (const url of ocsp.filter(u => /^https?:/i.test(u))) {
+    try {
+      const status = await fetchWithRelay(ocspGetUrl(url, buildOcspRequest(cert, issuer)), bytes =>
+        parseOcspResponse(forge.util.binary.raw.encode(bytes), cert, issuer, url, at)
+      );
+      if (isDefinitive(status)) return status;
+      problems.push(`${url}: ${status.message}`);
+    } catch (e: any) {
+      problems.push(`${url}: ${e.message}`);
+    }
+  }
+
+  for (const url of readCrlDistributionPoints(cert).filter(u => /^https?:/i.test(u))) {
+    try {
+      const crl = await fetchWithRelay(url, bytes => parseCrl(bytes, url));
+      const status = crlStatus(crl, cert, issuer, at);
+      if (isDefinitive(status)) return status;
+      problems.push(`${url}: ${status.message}`);
+    } catch (e: any) {
+      problems.push(`${url}: ${e.message}`);
+    }
+  }
+
+  if (problems.length > 0) return { state: 'error', message: problems.join('; ') };
+  return { state: 'unknown', message: 'Certificate names no OCSP responder or CRL distribution point' };
+};
@@ -0,0 +1,164 @@
+import forge from 'node-forge';
+import { TrustSource, TrustStoreEntry } from '../types';
+import { certificateSha256, loadCertificate, parseCertificate, splitCaBundle, verifyParent } from './cryptoService';
+import { nameKey } from './pathValidationService';
+
+const TRUST_STORE_KEY = 'trustStore';
+
+export const TRUST_SOURCES: { id: TrustSource; anchor: boolean }[] = [
+  { id: 'mozilla', anchor: true },
+  { id: 'internal', anchor: true },
+  { id: 'curated', anchor: false },
+];
+
+// --- Storage ---
+
+export const loadTrustStore = (): TrustStoreEntry[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TRUST_STORE_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+// Throws when the browser's storage quota is exceeded
+export const saveTrustStore = (entries: TrustStoreEntry[]) => {
+  localStorage.setItem(TRUST_STORE_KEY, JSON.stringify(entries));
+};
+
+// --- Import ---
+
+// NSS certdata.txt: certificate objects plus trust objects keyed by the certificate's SHA-1.
+// Only certificates trusted to issue server certificates are taken.
+export const parseCertdata = (text: string): string[] => {
+  const objects: Record<string, string>[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.startsWith('CKA_CLASS ')) objects.push({});
+    const current = objects[objects.length - 1];
+    const match = /^(CKA_\w+)\s+(\w+)\s*(.*)$/.exec(line);
+    if (!current || !match) continue;
+
+    const [, name, type, value] = match;
+    if (type === 'MULTILINE_OCTAL') {
+      let binary = '';
+      for (i++; i < lines.length && lines[i] !== 'END'; i++) {
+        binary += lines[i].replace(/\\([0-7]{3})/g, (_, octal) => String.fromCharCode(parseInt(octal, 8)));
+      }
+      current[name] = binary;
+    } else {
+      current[name] = value.trim();
+    }
+  }
+
+  const trusted = new Set(
+    objects
+      .filter(o => o.CKA_CLASS === 'CKO_NSS_TRUST' && o.CKA_TRUST_SERVER_AUTH === 'CKT_NSS_TRUSTED_DELEGATOR')
+      .map(o => o.CKA_CERT_SHA1_HASH)
+  );
+  return objects
+    .filter(o => o.CKA_CLASS === 'CKO_CERTIFICATE' && o.CKA_VALUE)
+    .filter(o => trusted.has(forge.md.sha1.create().update(o.CKA_VALUE).digest().getBytes()))
+    .map(o => forge.pem.encode({ type: 'CERTIFICATE', body: o.CKA_VALUE }));
+};
+
+const toEntry = (pem: string, source: TrustSource): TrustStoreEntry => {
+  const { info } = parseCertificate(pem);
+  const { subject } = loadCertificate(pem);
+  // Some roots have no CN; their last RDN (usually O or OU) names them instead
+  const label = (subject.find(a => a.shortName === 'CN') || subject[subject.length - 1])?.value;
+  return {
+    fingerprint: certificateSha256(pem),
+    pem: info.raw.replace(/\r\n/g, '\n'),
+    subject: String(label || info.commonName),
+    subjectKey: nameKey(subject),
+    source,
+    anchor: TRUST_SOURCES.find(s => s.id === source)!.anchor,
+    notAfter: info.validTo.toISOString(),
+  };
+};
+
+// Adds the certificates of a certdata.txt or PEM bundle. Ones already in the store are skipped.
+export const importTrustBundle = (
+  text: string,
+  source: TrustSource,
+  entries: TrustStoreEntry[]
+): { entries: TrustStoreEntry[]; added: number; skipped: number } => {
+  const pems = text.includes('CKA_CLASS') ? parseCertdata(text) : splitCaBundle(text);
+  const known = new Set(entries.map(e => e.fingerprint));
+  const added: TrustStoreEntry[] = [];
+  let skipped = 0;
+
+  for (const pem of pems) {
+    try {
+      const entry = toEntry(pem, source);
+      if (known.has(entry.fingerprint)) {
+        skipped++;
+        continue;
+      }
+      known.add(entry.fingerprint);
+      added.push(entry);
+    } catch (e) {
+      skipped++;
+    }
+  }
+  return { entries: [...entries, ...added], added: added.length, skipped };
+};
+
+// --- Chain Completion ---
+
+// Store entries whose key signed pem. Names are matched first so only plausible issuers are verified.
+// A pem that doesn't decode has no issuers.
+const findIssuers = (pem: string, entries: TrustStoreEntry[]): TrustStoreEntry[] => {
+  let issuerKey: string;
+  try {
+    issuerKey = nameKey(loadCertificate(pem).issuer);
+  } catch (e) {
+    return [];
+  }
+  return entries
+    .filter(e => e.subjectKey === issuerKey && verifyParent(pem, e.pem))
+    .sort((a, b) => Number(b.anchor) - Number(a.anchor) || b.notAfter.localeCompare(a.notAfter));
+};
+
+// Issuers for tailPem taken from the store, in order, up to a trust anchor or a self-signed root
+export const completeFromStore = (tailPem: string, entries: TrustStoreEntry[], exclude: string[] = [], maxDepth = 6): TrustStoreEntry[] => {
+  const added: TrustStoreEntry[] = [];
+  // Unparseable certificates in the exclude list can't match a store entry anyway
+  const seen = new Set(exclude.flatMap(pem => {
+    try {
+      return [certificateSha256(pem)];
+    } catch (e) {
+      return [];
+    }
+  }));
+  let tail = tailPem;
+
+  for (let depth = 0; depth < maxDepth; depth++) {
+    if (verifyParent(tail, tail)) break; // self-signed: nothing above it
+    const issuer = findIssuers(tail, entries).find(e => !seen.has(e.fingerprint));
+    if (!issuer) break;
+    added.push(issuer);
+    seen.add(issuer.fingerprint);
+    if (issuer.anchor) break;
+    tail = issuer.pem;
+  }
+  return added;
+};
+
+// The trust anchor a path (leaf first) ends at: a certificate in it, or the issuer of its last one
+export const findTrustAnchor = (pems: string[], entries: TrustStoreEntry[]): TrustStoreEntry | null => {
+  const anchors = entries.filter(e => e.anchor);
+  if (anchors.length === 0 || pems.length === 0) return null;
+  try {
+    const fingerprints = pems.map(certificateSha256);
+    const inPath = anchors.find(a => fingerprints.includes(a.fingerprint));
+    if (inPath) return inPath;
+    return findIssuers(pems[pems.length - 1], anchors)[0] || null;
+  } catch (e) {
+    return null;
+  }
+};
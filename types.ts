@@ -1,3 +1,14 @@
+export type KeyAlgorithm = 'RSA' | 'ECDSA' | 'Ed25519';
+export type EcCurve = 'P-256' | 'P-384';
+
+// Subject Alternative Names by form; IP addresses in text form (IPv6 per RFC 5952)
+export interface SubjectAltNames {
+  dns: string[];
+  ip: string[];
+  email: string[];
+  uri: string[];
+}
+
 export interface CertificateInfo {
   commonName: string;
   organization: string;
@@ -6,15 +17,63 @@ export interface CertificateInfo {
   validTo: Date;
   serialNumber: string;
   raw: string; // PEM
-  aiaUrl?: string;
+  caIssuers: string[]; // AIA caIssuers URIs, in certificate order
+  ocspUrls: string[]; // AIA OCSP responders
+  crlUrls: string[]; // CRL distribution point URIs
+  subjectAltNames: SubjectAltNames;
   fingerprint?: string;
+  keyAlgorithm: KeyAlgorithm;
+  keySize: number; // bits
+  curve?: EcCurve;
+}
+
+// Whether the leaf serves one controller hostname or IP address
+export interface HostnameCoverage {
+  host: string; // as entered
+  covered: boolean;
+  matchedBy?: string; // the SAN that covers it
+  reason?: string; // why it is not covered
+}
+
+// Everything the certificate inspector shows, decoded from one certificate
+export interface CertificateExtension {
+  oid: string;
+  name: string; // the OID again when unknown
+  critical: boolean;
+  values: string[]; // one line each; hex for extensions that are not decoded
+}
+
+export interface Asn1Node {
+  tag: string; // universal type name, or [n] / [APPLICATION n] / [PRIVATE n]
+  offset: number; // of the tag byte in the certificate DER
+  headerLength: number;
+  length: number; // of the contents
+  value?: string; // primitive contents, readable where the type allows
+  children?: Asn1Node[]; // constructed contents, or DER encapsulated in a BIT / OCTET STRING
+  encapsulated?: boolean;
+}
+
+export interface CertificateDetails {
+  version: number;
+  serialNumber: string; // colon-separated hex
+  subject: string; // full DN
+  issuer: string;
+  notBefore: Date;
+  notAfter: Date;
+  publicKey: string; // e.g. 'RSA 2048 bits, e=65537'
+  signatureAlgorithm: string; // name and OID
+  sha256: string; // colon-separated hex over the DER, as openssl prints it
+  sha1: string;
+  spkiPin: string; // base64 SHA-256 of the SubjectPublicKeyInfo (pin-sha256)
+  extensions: CertificateExtension[]; // certificate order
+  asn1: Asn1Node;
 }
 
 export interface ChainItem {
   id: string;
   status: 'pending' | 'downloading' | 'success' | 'failed' | 'uploaded';
   info: CertificateInfo;
-  source: 'uploaded' | 'fetched' | 'root';
+  source: 'uploaded' | 'fetched' | 'root' | 'store' | 'cache';
   pem: string;
   isRoot: boolean;
   signsChild: boolean; // true if this cert signs the previous cert in the chain (or leaf if it's first)
@@ -26,12 +85,243 @@ export interface FileData {
   type: 'crt' | 'key' | 'ca' | 'tar';
 }
 
-export interface SftpCredentials {
+// What a dropped file or pasted text turned out to be. 'pem-bundle' is a leaf, its key and
+// optionally CAs in one text, the shape of an OpenSSL "Bag Attributes" dump. 'tar' may be gzip-compressed.
+export type InputKind = 'pem-cert' | 'pem-key' | 'pem-bundle' | 'der-cert' | 'pkcs7' | 'pkcs12' | 'crl' | 'tar' | 'unknown';
+
+export interface SniffedInput {
+  name: string;
+  kind: InputKind;
+  text: string; // PEM / text form where one exists (DER certificates are re-armored)
+  bytes: Uint8Array;
+}
+
+// Output package layout. File names are templates where {name} is the package base name
+// and, for per-certificate files, {n} the 1-based CA index.
+export type PackagePart = 'cert' | 'key' | 'chain';
+export type KeyFormat = 'original' | 'pkcs1' | 'pkcs8'; // pkcs1: traditional form (PKCS#1 RSA / SEC1 EC)
+
+export interface PackageFileSpec {
+  name: string;
+  parts: PackagePart[]; // concatenated in this order
+  perCertificate?: boolean; // one file per chain certificate
+}
+
+export interface OutputProfile {
+  id: string;
+  label: string;
+  files: PackageFileSpec[];
+  includeRoot: boolean;
+  chainOrder: 'leaf-first' | 'root-first';
+  lineEnding: 'lf' | 'crlf';
+  keyFormat: KeyFormat;
+  gzip?: boolean; // write .tar.gz instead of .tar
+}
+
+export type TransferProtocol = 'sftp' | 'ftp' | 'tftp' | 'http';
+export type WingService = 'https' | 'radius' | 'syslog-tls';
+
+// Where the device fetches the package from and which services use the trustpoint
+export interface WingScriptSettings {
+  protocol: TransferProtocol;
+  host: string;
+  path: string; // directory on the server
+  username: string;
+  services: WingService[];
+}
+
+// Saved upload destination. Passwords are never stored; SFTP host keys are pinned by fingerprint.
+export interface DistributionTarget {
+  id: string;
+  name: string;
+  protocol: TransferProtocol;
   host: string;
+  port?: number; // protocol default when unset
+  path: string; // directory on the server
   username: string;
-  password: string;
-  path: string;
-  expiresIn: string;
+  hostKeyFingerprint?: string; // SHA256:<base64>, as printed by `ssh-keygen -lf`
+}
+
+// 'package': the package could not be built, so nothing was sent
+export type TransferErrorCode = 'host-key-unknown' | 'host-key-mismatch' | 'auth' | 'network' | 'remote' | 'companion' | 'package';
+
+// Outcome of one upload, as reported by the companion service
+export interface DistributionResult {
+  ok: boolean;
+  target: DistributionTarget;
+  url: string; // where the package was written
+  bytes: number;
+  durationMs: number;
+  hostKeyFingerprint?: string; // key the SFTP server presented
+  error?: string;
+  errorCode?: TransferErrorCode;
+}
+
+// Local trust store. Roots (and internal anchors) end chains; curated intermediates only help complete them.
+export type TrustSource = 'mozilla' | 'internal' | 'curated';
+
+export interface TrustStoreEntry {
+  fingerprint: string; // SHA-256 of the DER
+  pem: string;
+  subject: string; // common name, for display
+  subjectKey: string; // normalized subject DN, matched against issuer names
+  source: TrustSource;
+  anchor: boolean;
+  notAfter: string; // ISO 8601
+}
+
+// CA certificate remembered in IndexedDB from an AIA fetch or an upload
+export interface CachedCertificate {
+  fingerprint: string; // SHA-256 of the DER
+  pem: string;
+  subject: string; // common name, for display
+  subjectKey: string; // normalized subject DN
+  ski?: string; // subject key identifier, hex
+  issuer: string;
+  notAfter: string; // ISO 8601
+  source: 'fetched' | 'uploaded';
+  cachedAt: string; // ISO 8601
+}
+
+// Revocation of one certificate as reported by its issuer's CRL or OCSP responder
+export type RevocationState = 'good' | 'revoked' | 'unknown' | 'error';
+
+export interface RevocationStatus {
+  state: RevocationState;
+  method?: 'crl' | 'ocsp';
+  source?: string; // responder or CRL URL, or the uploaded CRL's file name
+  revokedAt?: string; // ISO 8601
+  reason?: string; // CRLReason name
+  message: string;
+}
+
+// Network fetches of AIA, OCSP and CRL URLs. The relay is only used when a direct fetch fails
+// (usually for lack of CORS headers); an empty allowlist allows every host.
+export interface FetchRelaySettings {
+  relayUrl: string; // '' for no relay; '{url}' is replaced by the encoded URL, otherwise it is appended
+  allowedHosts: string[]; // exact hosts or '*.example.com'
+}
+
+export type FetchPath = 'direct' | 'relay' | 'blocked' | 'failed';
+
+export interface FetchLogEntry {
+  url: string;
+  path: FetchPath;
+  detail?: string; // why the direct fetch or the relay failed
+  at: string; // ISO 8601
+}
+
+// Why a certificate path fails RFC 5280 validation. Link problems concern one certificate issuing
+// the next; certificate problems concern a certificate on its own.
+export type PathProblemCode =
+  | 'signature-invalid'
+  | 'name-mismatch'
+  | 'aki-ski-mismatch'
+  | 'not-ca'
+  | 'no-key-cert-sign'
+  | 'path-length-exceeded'
+  | 'name-constraints'
+  | 'expired'
+  | 'not-yet-valid'
+  | 'unknown-critical-extension'
+  | 'unparseable';
+
+export interface PathProblem {
+  code: PathProblemCode;
+  message: string;
+}
+
+// Result for a path given leaf first. links[i] is path[i+1] issuing path[i].
+export interface PathValidation {
+  valid: boolean; // no problems anywhere
+  anchored: boolean; // ends in a self-signed certificate whose own signature verifies
+  certificates: PathProblem[][];
+  links: PathProblem[][];
+}
+
+// Something the package validator noticed, e.g. an unsafe member path or two candidate certificates
+export type FindingSeverity = 'error' | 'warning' | 'info';
+
+export interface ValidationFinding {
+  code: string; // stable identifier such as 'unsafe-path' or 'ambiguous-member'
+  severity: FindingSeverity;
+  message: string;
+  member?: string; // archive member the finding is about
+}
+
+// Offline certificate linting. A rule pack overrides the built-in rules' settings; findings at
+// severity 'error' block packaging.
+export interface LintRuleConfig {
+  enabled: boolean;
+  severity: FindingSeverity;
+  params: Record<string, number>;
+}
+
+export interface LintRulePack {
+  name: string;
+  rules: Record<string, Partial<LintRuleConfig>>; // by rule id; rules not listed keep their defaults
+}
+
+export interface LintFinding extends ValidationFinding {
+  certificate: number; // position in the chain, 0 for the leaf
+}
+
+// AI analysis of the leaf and its chain. The API key is kept for the session only and is not part
+// of the saved settings.
+export type AnalysisProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface AnalysisSettings {
+  provider: AnalysisProviderId;
+  model: string; // '' for the provider's default
+  baseUrl: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+}
+
+export interface CertificateAnalysis {
+  assessment: string;
+  suggestedFilename: string;
+  readmeContent: string;
+}
+
+export interface AnalysisOutcome {
+  provider: string; // provider and model that answered, e.g. 'gemini / gemini-2.5-flash'
+  analysis?: CertificateAnalysis; // absent when the provider failed or its answer was rejected
+  error?: string; // why there is no analysis
+}
+
+// Integrity record written into every package as MANIFEST.json. Hashes are lowercase hex SHA-256.
+export interface PackageManifest {
+  format: 1;
+  tool: string; // builder name/version
+  sourceDate: string; // ISO 8601; the leaf's notBefore, not the build time, so rebuilds are identical
+  builtAt?: string; // ISO 8601 wall-clock build time; opt-in, since it makes every build differ
+  leaf: { subject: string; sha256: string };
+  chain: { subject: string; sha256: string }[]; // CA certificates as packaged
+  files: { name: string; size: number; sha256: string }[];
+}
+
+// Detached signature over the exact MANIFEST.json bytes, stored as MANIFEST.sig
+export interface ManifestSignature {
+  algorithm: string; // 'RSA-SHA256', 'ECDSA-SHA256', 'ECDSA-SHA384' or 'Ed25519'
+  publicKey: string; // SubjectPublicKeyInfo PEM
+  signature: string; // base64
+}
+
+// A team signing key the validator accepts, identified by its SubjectPublicKeyInfo SHA-256
+export interface TrustedSigner {
+  fingerprint: string;
+  name: string;
+}
+
+export type SignatureStatus = 'unsigned' | 'invalid' | 'untrusted' | 'trusted';
+
+export interface ManifestCheck {
+  present: boolean;
+  intact: boolean; // every member matches its recorded hash and nothing was added or removed
+  signature: SignatureStatus;
+  signer?: TrustedSigner; // name is empty when the signer isn't trusted
+  tool?: string;
+  sourceDate?: string;
+  builtAt?: string;
 }
 
 export enum AppStep {
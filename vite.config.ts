@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.COMPANION_URL': JSON.stringify(env.COMPANION_URL),
+        'process.env.APP_VERSION': JSON.stringify(process.env.npm_package_version)
       },
       resolve: {
         alias: {